@@ -0,0 +1,98 @@
+import { getDestinationTarget } from '../providers/index.js';
+import {
+  ConfigError,
+  type Destination,
+  type EnvVars,
+  type PushPlan,
+  type RemoteEnvVar,
+} from '../types/index.js';
+import { emitEvent } from '../utils/output.js';
+import { formatPlan, hasChanges, overwriteUnknown } from '../utils/plan.js';
+
+/** Exit code of `plan` and `--dry-run` when the remote state differs */
+export const EXIT_CODE_CHANGES = 2;
+
+/** Options for computing plans for one or more destinations */
+export interface PlanOptions {
+  destinations: Destination[];
+  envVars: EnvVars;
+  /** Push keys whose remote value cannot be read instead of skipping them */
+  overwriteUnknown?: boolean;
+}
+
+/** Plan together with the destination and context it was computed for */
+export interface PlannedDestination<TContext = unknown> {
+  destination: Destination;
+  context: TContext;
+  /** Remote state the plan was computed against */
+  current: RemoteEnvVar[];
+  plan: PushPlan;
+}
+
+/**
+ * Resolve each destination's provider context, fetch its current remote
+ * state and compute the changes needed to push envVars
+ * @throws {ConfigError} When configuration is invalid
+ */
+export async function createPlans(
+  options: PlanOptions
+): Promise<PlannedDestination[]> {
+  const { destinations, envVars } = options;
+
+  if (Object.keys(envVars).length === 0) {
+    throw new ConfigError('No environment variables provided');
+  }
+
+  const keys = Object.keys(envVars);
+  console.log(`Found ${keys.length} environment variables`);
+  emitEvent({ type: 'env', count: keys.length, keys });
+
+  const planned: PlannedDestination[] = [];
+  for (const destination of destinations) {
+    const { provider, args } = destination;
+    const context = await provider.resolve(args);
+    const current = await provider.list(context);
+    const plan = provider.plan(context, envVars, current);
+    planned.push({
+      destination,
+      context,
+      current,
+      plan: options.overwriteUnknown ? overwriteUnknown(plan) : plan,
+    });
+  }
+
+  return planned;
+}
+
+/**
+ * Print a destination's plan as a per-key diff and emit it as an event
+ */
+export function printPlan({ destination, plan }: PlannedDestination): void {
+  console.log(`\nPlan for ${destination.name}:`);
+  for (const line of formatPlan(plan)) {
+    console.log(line);
+  }
+
+  emitEvent({
+    type: 'plan',
+    destination: destination.name,
+    provider: destination.provider.name,
+    target: getDestinationTarget(destination),
+    changes: plan.changes.map(({ key, action, type }) => ({
+      key,
+      action,
+      type,
+    })),
+  });
+}
+
+/**
+ * Show the changes a push would make without applying them
+ * @returns Whether the remote state of any destination differs
+ * @throws {ConfigError} When configuration is invalid
+ */
+export async function plan(options: PlanOptions): Promise<boolean> {
+  const planned = await createPlans(options);
+  planned.forEach(printPlan);
+  return planned.some(({ plan }) => hasChanges(plan));
+}
@@ -0,0 +1,68 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { ConfigError, type Destination, type EnvVars } from '../types/index.js';
+import { formatEnvFile } from '../utils/env-file.js';
+import { emitEvent } from '../utils/output.js';
+
+/** Options for pulling variables through a registered provider */
+export interface PullOptions {
+  destination: Destination;
+  /** File to write */
+  out: string;
+  /** Overwrite the file if it exists */
+  force: boolean;
+}
+
+/**
+ * Download the variables stored by a provider into a local env file
+ * An existing file is only replaced with `force`; its comments and key
+ * order are kept where keys match.
+ * @throws {ConfigError} When the file exists and force is not set
+ * @throws {EnvFormatError} When a value cannot be written to an env file
+ */
+export async function pull(options: PullOptions): Promise<void> {
+  const { destination, out } = options;
+  const { provider, args } = destination;
+
+  let existing: string | undefined;
+  if (existsSync(out)) {
+    if (!options.force) {
+      throw new ConfigError(
+        `${out} already exists. Use --force to overwrite it.`
+      );
+    }
+    existing = readFileSync(out, 'utf-8');
+  }
+
+  const context = await provider.resolve(args);
+  const current = await provider.list(context);
+
+  const envVars: EnvVars = {};
+  const unreadable: string[] = [];
+  for (const { key, value } of current) {
+    if (key in envVars) {
+      continue;
+    }
+    if (value === undefined) {
+      unreadable.push(key);
+      continue;
+    }
+    envVars[key] = value;
+  }
+
+  if (unreadable.length > 0) {
+    console.warn(
+      `Warning: Skipping variables whose values cannot be read: ${unreadable.join(', ')}`
+    );
+  }
+
+  const count = Object.keys(envVars).length;
+  writeFileSync(out, formatEnvFile(envVars, existing));
+  console.log(`Wrote ${count} environment variables to ${out}`);
+  emitEvent({
+    type: 'pull',
+    destination: destination.name,
+    out,
+    count,
+    skipped: unreadable,
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import { createMemoryDestination } from '../test-utils/test-helpers.js';
+import { DotenvPushError } from '../types/index.js';
+import { push } from './push.js';
+
+describe('Push Command', () => {
+  it('should apply changed destinations and skip unchanged ones', async () => {
+    const changed = createMemoryDestination('first', []);
+    const unchanged = createMemoryDestination('second', [
+      { key: 'KEY', value: 'value' },
+    ]);
+
+    const results = await push({
+      destinations: [changed.destination, unchanged.destination],
+      envVars: { KEY: 'value' },
+      skipConfirmation: true,
+    });
+
+    expect(results).toEqual([
+      { destination: 'first', status: 'applied' },
+      { destination: 'second', status: 'unchanged' },
+    ]);
+    expect(changed.apply).toHaveBeenCalledTimes(1);
+    expect(unchanged.apply).not.toHaveBeenCalled();
+  });
+
+  it('should continue after a failing destination and report it', async () => {
+    const failing = createMemoryDestination('broken', [], {
+      apply: async () => {
+        throw new Error('boom');
+      },
+    });
+    const working = createMemoryDestination('working', []);
+
+    const error = await push({
+      destinations: [failing.destination, working.destination],
+      envVars: { KEY: 'value' },
+      skipConfirmation: true,
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(DotenvPushError);
+    expect(error.code).toBe('PUSH_FAILED');
+    expect(error.message).toBe('Failed to push to 1 of 2 destinations: broken');
+    expect(working.apply).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow the error of a single destination', async () => {
+    const failing = createMemoryDestination('broken', [], {
+      apply: async () => {
+        throw new Error('boom');
+      },
+    });
+
+    await expect(
+      push({
+        destinations: [failing.destination],
+        envVars: { KEY: 'value' },
+        skipConfirmation: true,
+      })
+    ).rejects.toThrow('boom');
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  getDestinationIdentity,
+  getDestinationTarget,
+} from '../providers/index.js';
+import {
+  type Destination,
+  DotenvPushError,
+  type EnvVars,
+} from '../types/index.js';
+import { prompt } from '../utils/input.js';
+import { emitEvent, toErrorInfo, withDestination } from '../utils/output.js';
+import { hasChanges } from '../utils/plan.js';
+import { saveSnapshot } from '../utils/snapshot.js';
+import { createPlans, printPlan } from './plan.js';
+
+/** Options for pushing to one or more destinations */
+export interface PushOptions {
+  destinations: Destination[];
+  envVars: EnvVars;
+  skipConfirmation: boolean;
+  /** Push keys whose remote value cannot be read instead of skipping them */
+  overwriteUnknown?: boolean;
+  /** Directory to save the remote state to before applying; none if unset */
+  snapshotDir?: string;
+}
+
+/** Outcome of pushing to a single destination */
+export interface PushResult {
+  destination: string;
+  status: 'applied' | 'unchanged' | 'failed';
+  error?: Error;
+}
+
+/**
+ * Emit the outcome of pushing to a destination as a result event
+ * @returns The result, for collecting
+ */
+function reportResult(result: PushResult): PushResult {
+  const { destination, status, error } = result;
+  emitEvent({
+    type: 'result',
+    destination,
+    status,
+    error: error && toErrorInfo(error),
+  });
+  return result;
+}
+
+/**
+ * Print the per-destination outcome of a multi-destination push
+ */
+function printSummary(results: PushResult[]): void {
+  const width = Math.max(...results.map(r => r.destination.length));
+
+  console.log('\nSummary:');
+  for (const { destination, status, error } of results) {
+    const detail = error ? `: ${error.message}` : '';
+    console.log(`  ${destination.padEnd(width)}  ${status}${detail}`);
+  }
+}
+
+/**
+ * Push environment variables to one or more destinations
+ * Variables are planned for every destination first and confirmed once;
+ * a failing destination does not stop the remaining ones. The remote state
+ * of each destination is saved as a snapshot before it is changed.
+ * @returns The outcome per destination
+ * @throws {ConfigError} When configuration is invalid
+ * @throws {DotenvPushError} When any destination fails
+ */
+export async function push(options: PushOptions): Promise<PushResult[]> {
+  const planned = await createPlans(options);
+  planned.forEach(printPlan);
+
+  const pending = planned.filter(({ plan }) => hasChanges(plan));
+  if (pending.length === 0) {
+    console.log('\nNo changes to apply.');
+    return planned.map(({ destination }) =>
+      reportResult({ destination: destination.name, status: 'unchanged' })
+    );
+  }
+
+  // Confirm before proceeding
+  if (!options.skipConfirmation) {
+    const question =
+      planned.length > 1
+        ? `\nProceed with deployment to ${pending.length} destinations? (yes/no): `
+        : '\nProceed with deployment? (yes/no): ';
+    const confirmation = await prompt(question);
+    if (confirmation.toLowerCase() !== 'yes') {
+      console.log('Operation cancelled.');
+      return [];
+    }
+  }
+
+  const results: PushResult[] = [];
+  for (const { destination, context, current, plan } of planned) {
+    if (!hasChanges(plan)) {
+      results.push(
+        reportResult({ destination: destination.name, status: 'unchanged' })
+      );
+      continue;
+    }
+
+    if (planned.length > 1) {
+      console.log(`\nApplying changes to ${destination.name}...`);
+    }
+
+    try {
+      if (options.snapshotDir) {
+        const snapshot = saveSnapshot(options.snapshotDir, {
+          destination: destination.name,
+          provider: destination.provider.name,
+          target: getDestinationTarget(destination),
+          identity: getDestinationIdentity(destination, context),
+          vars: current,
+        });
+        console.log(`Saved snapshot ${snapshot.id} of ${destination.name}`);
+        emitEvent({
+          type: 'snapshot',
+          destination: destination.name,
+          id: snapshot.id,
+        });
+      }
+      await withDestination(destination.name, () =>
+        destination.provider.apply(context, plan)
+      );
+      results.push(
+        reportResult({ destination: destination.name, status: 'applied' })
+      );
+    } catch (error) {
+      results.push(
+        reportResult({
+          destination: destination.name,
+          status: 'failed',
+          error: error instanceof Error ? error : new Error(String(error)),
+        })
+      );
+    }
+  }
+
+  const failed = results.filter(({ status }) => status === 'failed');
+  if (planned.length === 1 && failed[0]?.error) {
+    throw failed[0].error;
+  }
+
+  if (planned.length > 1) {
+    printSummary(results);
+  }
+
+  if (failed.length > 0) {
+    throw new DotenvPushError(
+      `Failed to push to ${failed.length} of ${results.length} destinations: ${failed.map(r => r.destination).join(', ')}`,
+      'PUSH_FAILED'
+    );
+  }
+
+  return results;
+}
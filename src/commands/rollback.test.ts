@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import {
+  createMemoryDestination,
+  createMemoryFs,
+} from '../test-utils/test-helpers.js';
+import type { RemoteEnvVar } from '../types/index.js';
+import { listSnapshots, saveSnapshot } from '../utils/snapshot.js';
+import { rollback } from './rollback.js';
+
+const { files, fs } = createMemoryFs();
+await mock.module('node:fs', () => fs);
+
+const DIR = '/repo/.dotenv-push/snapshots';
+
+/** Create a destination backed by an in-memory provider without pruning */
+function createDestination(current: RemoteEnvVar[], target = 'production') {
+  return createMemoryDestination(`memory:${target}`, current, {
+    target,
+    prune: false,
+  });
+}
+
+describe('Rollback Command', () => {
+  const previousKey = process.env.DOTENV_PUSH_SNAPSHOT_KEY;
+
+  beforeEach(() => {
+    files.clear();
+    process.env.DOTENV_PUSH_SNAPSHOT_KEY = 'c'.repeat(64);
+  });
+
+  afterEach(() => {
+    if (previousKey === undefined) {
+      delete process.env.DOTENV_PUSH_SNAPSHOT_KEY;
+    } else {
+      process.env.DOTENV_PUSH_SNAPSHOT_KEY = previousKey;
+    }
+  });
+
+  it('should restore the latest snapshot of the destination', async () => {
+    saveSnapshot(DIR, {
+      destination: 'memory:production',
+      provider: 'memory',
+      target: 'production',
+      identity: 'memory:production',
+      vars: [
+        { key: 'CHANGED', value: 'before', id: '1', type: 'encrypted' },
+        { key: 'REMOVED', value: 'gone', id: '2' },
+        { key: 'WRITE_ONLY', id: '3' },
+      ],
+    });
+    saveSnapshot(DIR, {
+      destination: 'memory:preview',
+      provider: 'memory',
+      target: 'preview',
+      identity: 'memory:preview',
+      vars: [],
+    });
+    const { destination, apply } = createDestination([
+      { key: 'CHANGED', value: 'after', id: '1', type: 'plain' },
+      { key: 'ADDED', value: 'new', id: '4' },
+      { key: 'WRITE_ONLY', id: '3' },
+    ]);
+
+    const restored = await rollback({
+      destination,
+      snapshotDir: DIR,
+      skipConfirmation: true,
+    });
+
+    expect(restored).toBe(true);
+    const plan = apply.mock.calls[0][1];
+    expect(
+      plan.changes.map(({ key, action, type }) => ({ key, action, type }))
+    ).toEqual([
+      { key: 'CHANGED', action: 'update', type: 'encrypted' },
+      { key: 'REMOVED', action: 'create', type: undefined },
+      { key: 'ADDED', action: 'remove', type: undefined },
+    ]);
+    // The replaced state is saved so the rollback can be undone
+    expect(listSnapshots(DIR)).toHaveLength(3);
+  });
+
+  it('should do nothing when the state already matches', async () => {
+    saveSnapshot(DIR, {
+      destination: 'memory:production',
+      provider: 'memory',
+      target: 'production',
+      identity: 'memory:production',
+      vars: [{ key: 'SAME', value: 'value' }],
+    });
+    const { destination, apply } = createDestination([
+      { key: 'SAME', value: 'value' },
+    ]);
+
+    const restored = await rollback({
+      destination,
+      snapshotDir: DIR,
+      skipConfirmation: true,
+    });
+
+    expect(restored).toBe(false);
+    expect(apply).not.toHaveBeenCalled();
+  });
+
+  it('should refuse snapshots of another destination', async () => {
+    const snapshot = saveSnapshot(DIR, {
+      destination: 'memory:preview',
+      provider: 'memory',
+      target: 'preview',
+      identity: 'memory:preview',
+      vars: [],
+    });
+    const { destination } = createDestination([]);
+
+    await expect(
+      rollback({
+        destination,
+        snapshotDir: DIR,
+        snapshotId: snapshot.id,
+        skipConfirmation: true,
+      })
+    ).rejects.toThrow(
+      `Snapshot ${snapshot.id} was taken of memory:preview, not memory:production`
+    );
+    await expect(
+      rollback({ destination, snapshotDir: DIR, skipConfirmation: true })
+    ).rejects.toThrow(`No snapshot of memory:production found in ${DIR}`);
+  });
+
+  it('should refuse snapshots of another deployment with the same target', async () => {
+    const snapshot = saveSnapshot(DIR, {
+      destination: 'memory:production',
+      provider: 'memory',
+      target: 'production',
+      identity: 'memory:deployment-a',
+      vars: [{ key: 'FROM_A', value: 'a' }],
+    });
+    const { destination, apply } = createMemoryDestination(
+      'memory:production',
+      [{ key: 'FROM_B', value: 'b' }],
+      { target: 'production', identity: 'deployment-b' }
+    );
+
+    await expect(
+      rollback({ destination, snapshotDir: DIR, skipConfirmation: true })
+    ).rejects.toThrow(`No snapshot of memory:deployment-b found in ${DIR}`);
+    await expect(
+      rollback({
+        destination,
+        snapshotDir: DIR,
+        snapshotId: snapshot.id,
+        skipConfirmation: true,
+      })
+    ).rejects.toThrow(
+      `Snapshot ${snapshot.id} was taken of memory:deployment-a, not memory:deployment-b`
+    );
+    expect(apply).not.toHaveBeenCalled();
+  });
+});
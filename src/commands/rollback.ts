@@ -0,0 +1,181 @@
+import {
+  getDestinationIdentity,
+  getDestinationTarget,
+} from '../providers/index.js';
+import {
+  type Destination,
+  type EnvVars,
+  type PlanChange,
+  type Provider,
+  type PushPlan,
+  type RemoteEnvVar,
+  SnapshotError,
+} from '../types/index.js';
+import { prompt } from '../utils/input.js';
+import { emitEvent, withDestination } from '../utils/output.js';
+import { hasChanges, overwriteUnknown } from '../utils/plan.js';
+import {
+  listSnapshots,
+  loadSnapshot,
+  type Snapshot,
+  saveSnapshot,
+} from '../utils/snapshot.js';
+import { printPlan } from './plan.js';
+
+/** Options for restoring a destination from a snapshot */
+export interface RollbackOptions {
+  destination: Destination;
+  snapshotDir: string;
+  /** Snapshot to restore; the latest of the destination if unset */
+  snapshotId?: string;
+  skipConfirmation: boolean;
+}
+
+/**
+ * Load the requested snapshot, or the latest one taken of the destination
+ * Only snapshots of the same resolved destination are restored, so that
+ * one deployment's variables never overwrite another's.
+ * @param identity Identity of the resolved destination
+ * @throws {SnapshotError} When there is no matching snapshot
+ */
+function findSnapshot(options: RollbackOptions, identity: string): Snapshot {
+  const { snapshotDir } = options;
+
+  const id =
+    options.snapshotId ??
+    listSnapshots(snapshotDir).find(info => info.identity === identity)?.id;
+  if (!id) {
+    throw new SnapshotError(
+      `No snapshot of ${identity} found in ${snapshotDir}`
+    );
+  }
+
+  const snapshot = loadSnapshot(snapshotDir, id);
+  if (snapshot.identity !== identity) {
+    throw new SnapshotError(
+      `Snapshot ${id} was taken of ${snapshot.identity ?? snapshot.destination}, not ${identity}. Refusing to restore it.`
+    );
+  }
+
+  return snapshot;
+}
+
+/**
+ * Plan the changes that bring the remote state back to a snapshot
+ * Uses the provider's own plan, then removes keys added since the snapshot
+ * and restores the stored types. Keys whose values could not be read when
+ * the snapshot was taken are left as they are.
+ */
+function planRestore(
+  provider: Provider,
+  context: unknown,
+  snapshot: Snapshot,
+  current: RemoteEnvVar[]
+): PushPlan {
+  const envVars: EnvVars = {};
+  const types = new Map<string, string>();
+  const unreadable = new Set<string>();
+  for (const { key, value, type } of snapshot.vars) {
+    if (key in envVars || unreadable.has(key)) {
+      continue;
+    }
+    if (value === undefined) {
+      unreadable.add(key);
+      continue;
+    }
+    envVars[key] = value;
+    if (type) {
+      types.set(key, type);
+    }
+  }
+
+  if (unreadable.size > 0) {
+    console.warn(
+      `Warning: Values of ${[...unreadable].join(', ')} were not readable when the snapshot was taken and are left unchanged`
+    );
+  }
+
+  // Restore the snapshot's values even where the current ones are unknown
+  const changes = overwriteUnknown(provider.plan(context, envVars, current))
+    .changes.filter(change => !unreadable.has(change.key))
+    .map((change): PlanChange => {
+      const type = types.get(change.key);
+      if (!type || change.action === 'remove') {
+        return change;
+      }
+
+      const retype =
+        change.action === 'unchanged' &&
+        change.current?.type !== undefined &&
+        change.current.type !== type;
+      return { ...change, action: retype ? 'update' : change.action, type };
+    });
+
+  const planned = new Set(changes.map(change => change.current));
+  for (const env of current) {
+    if (!planned.has(env) && !unreadable.has(env.key)) {
+      changes.push({ key: env.key, action: 'remove', current: env });
+    }
+  }
+
+  return { changes };
+}
+
+/**
+ * Restore a destination to the state saved in a snapshot
+ * The state being replaced is saved as a new snapshot first, so a
+ * rollback can itself be rolled back.
+ * @returns Whether anything was restored
+ * @throws {SnapshotError} When the snapshot cannot be found or read
+ */
+export async function rollback(options: RollbackOptions): Promise<boolean> {
+  const { destination, snapshotDir } = options;
+  const { provider, args } = destination;
+
+  const context = await provider.resolve(args);
+  const identity = getDestinationIdentity(destination, context);
+  const snapshot = findSnapshot(options, identity);
+  console.log(
+    `Restoring snapshot ${snapshot.id} of ${snapshot.destination} taken at ${snapshot.createdAt}`
+  );
+
+  const current = await provider.list(context);
+  const plan = planRestore(provider, context, snapshot, current);
+  printPlan({ destination, context, current, plan });
+
+  if (!hasChanges(plan)) {
+    console.log('\nNothing to restore.');
+    emitEvent({
+      type: 'result',
+      destination: destination.name,
+      status: 'unchanged',
+    });
+    return false;
+  }
+
+  if (!options.skipConfirmation) {
+    const confirmation = await prompt('\nProceed with rollback? (yes/no): ');
+    if (confirmation.toLowerCase() !== 'yes') {
+      console.log('Operation cancelled.');
+      return false;
+    }
+  }
+
+  const backup = saveSnapshot(snapshotDir, {
+    destination: destination.name,
+    provider: provider.name,
+    target: getDestinationTarget(destination),
+    identity,
+    vars: current,
+  });
+  console.log(`Saved snapshot ${backup.id} of ${destination.name}`);
+  emitEvent({ type: 'snapshot', destination: destination.name, id: backup.id });
+
+  await withDestination(destination.name, () => provider.apply(context, plan));
+  emitEvent({
+    type: 'result',
+    destination: destination.name,
+    status: 'applied',
+  });
+  return true;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test';
+import { compareEnvVars } from './status.js';
+
+describe('Status Command', () => {
+  describe('compareEnvVars', () => {
+    it('should report missing, extra and differing keys', () => {
+      const result = compareEnvVars(
+        { SAME: 'a', CHANGED: 'new', MISSING: 'x' },
+        [
+          { key: 'SAME', value: 'a' },
+          { key: 'CHANGED', value: 'old' },
+          { key: 'EXTRA', value: 'y' },
+        ]
+      );
+
+      expect(result).toEqual({
+        inSync: false,
+        missing: ['MISSING'],
+        extra: ['EXTRA'],
+        differing: ['CHANGED'],
+        unknown: [],
+      });
+    });
+
+    it('should not count unreadable values as drift', () => {
+      const result = compareEnvVars({ SECRET: 'value' }, [{ key: 'SECRET' }]);
+
+      expect(result.inSync).toBe(true);
+      expect(result.unknown).toEqual(['SECRET']);
+    });
+
+    it('should ignore duplicate remote records', () => {
+      const result = compareEnvVars({ KEY: 'a' }, [
+        { key: 'KEY', value: 'a' },
+        { key: 'KEY', value: 'b' },
+      ]);
+
+      expect(result.inSync).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { getDestinationTarget } from '../providers/index.js';
+import type {
+  Destination,
+  EnvVars,
+  RemoteEnvVar,
+  StatusReport,
+} from '../types/index.js';
+import { emitEvent, isMachineOutput } from '../utils/output.js';
+
+/** Options for checking drift through a registered provider */
+export interface StatusOptions {
+  destination: Destination;
+  envVars: EnvVars;
+}
+
+/**
+ * Compare local variables to the variables stored by a provider
+ * Keys whose remote value cannot be read are reported as unknown and do
+ * not count as drift.
+ */
+export function compareEnvVars(
+  envVars: EnvVars,
+  current: RemoteEnvVar[]
+): Pick<
+  StatusReport,
+  'inSync' | 'missing' | 'extra' | 'differing' | 'unknown'
+> {
+  const remote = new Map<string, RemoteEnvVar>();
+  for (const env of current) {
+    if (!remote.has(env.key)) {
+      remote.set(env.key, env);
+    }
+  }
+
+  const missing: string[] = [];
+  const differing: string[] = [];
+  const unknown: string[] = [];
+  for (const [key, value] of Object.entries(envVars)) {
+    const env = remote.get(key);
+    if (!env) {
+      missing.push(key);
+    } else if (env.value === undefined) {
+      unknown.push(key);
+    } else if (env.value !== value) {
+      differing.push(key);
+    }
+  }
+
+  const extra = [...remote.keys()].filter(key => !(key in envVars));
+
+  return {
+    inSync: missing.length + extra.length + differing.length === 0,
+    missing,
+    extra,
+    differing,
+    unknown,
+  };
+}
+
+/**
+ * Print a status report for humans
+ */
+function printStatus(report: StatusReport): void {
+  console.log(`\nStatus for ${report.destination}:`);
+
+  const sections: [string, string[]][] = [
+    ['Missing remotely', report.missing],
+    ['Only remote', report.extra],
+    ['Differing', report.differing],
+    ['Cannot compare', report.unknown],
+  ];
+  for (const [label, keys] of sections) {
+    if (keys.length > 0) {
+      console.log(`\n${label} (${keys.length}):`);
+      keys.forEach(key => {
+        console.log(`  - ${key}`);
+      });
+    }
+  }
+
+  console.log(report.inSync ? '\nIn sync.' : '\nDrift detected.');
+}
+
+/**
+ * Compare local variables to the remote state without changing anything
+ * @returns Whether the remote state has drifted from envVars
+ * @throws {ConfigError} When configuration is invalid
+ */
+export async function status(options: StatusOptions): Promise<boolean> {
+  const { destination, envVars } = options;
+  const { provider, args } = destination;
+
+  const context = await provider.resolve(args);
+  const current = await provider.list(context);
+
+  const report: StatusReport = {
+    destination: destination.name,
+    provider: provider.name,
+    target: getDestinationTarget(destination),
+    ...compareEnvVars(envVars, current),
+  };
+
+  emitEvent({ type: 'status', ...report });
+  if (!isMachineOutput()) {
+    printStatus(report);
+  }
+
+  return !report.inSync;
+}
@@ -1,19 +1,9 @@
-import { beforeEach, describe, expect, it, mock, vi } from 'bun:test';
+import { describe, expect, it } from 'bun:test';
 import { parseArgs } from 'node:util';
+import { getProviderNames, isSupportedProvider } from './providers/index.js';
 import { validateCliArgs } from './schemas/index.js';
-import { isSupportedProvider, SUPPORTED_PROVIDERS } from './types/index.js';
-
-// Mock the dependencies
-const mockPushToVercel = mock();
-await mock.module('./providers/vercel.js', () => ({
-  pushToVercel: mockPushToVercel,
-}));
 
 describe('CLI Argument Parsing', () => {
-  beforeEach(() => {
-    mockPushToVercel.mockReset();
-  });
-
   describe('parseArgs functionality', () => {
     it('should parse help flag correctly', () => {
       const { values } = parseArgs({
@@ -139,7 +129,7 @@ describe('CLI Argument Parsing', () => {
     it('should accept vercel as valid provider', () => {
       const provider = 'vercel';
       expect(isSupportedProvider(provider)).toBe(true);
-      expect(SUPPORTED_PROVIDERS.includes('vercel')).toBe(true);
+      expect(getProviderNames().includes('vercel')).toBe(true);
     });
 
     it('should reject unsupported providers', () => {
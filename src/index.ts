@@ -1,52 +1,276 @@
 #!/usr/bin/env node
 
-import { parseArgs } from 'node:util';
-import { pushToConvex } from './providers/convex.js';
-import { pushToVercel } from './providers/vercel.js';
+import { resolve as resolvePath } from 'node:path';
+import { type ParseArgsConfig, parseArgs } from 'node:util';
+import { EXIT_CODE_CHANGES, plan } from './commands/plan.js';
+import { pull } from './commands/pull.js';
+import { push } from './commands/push.js';
+import { rollback } from './commands/rollback.js';
+import { status } from './commands/status.js';
+import {
+  getDestinationTarget,
+  getProvider,
+  listProviders,
+  loadProviderModule,
+} from './providers/index.js';
 import { validateCliArgs } from './schemas/index.js';
 import {
   type CliArgs,
+  COMMANDS,
+  type Command,
   ConfigError,
-  isSupportedProvider,
-  SUPPORTED_PROVIDERS,
+  type Destination,
+  type EnvSchema,
+  type EnvVars,
+  type LoadedConfig,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  type ProviderCommand,
+  type ProviderOption,
+  type ProviderOptionValues,
 } from './types/index.js';
-import { loadEnvVars, parseEnvFromStdin } from './utils/env.js';
+import { loadConfig } from './utils/config.js';
+import {
+  type EnvLayer,
+  formatEnvSources,
+  loadEnvVars,
+  type MergedEnv,
+  mergeEnvLayers,
+  parseEnvFromStdin,
+} from './utils/env.js';
+import { loadEnvSchema, validateEnvVars } from './utils/env-schema.js';
+import { expandEnvVars } from './utils/expand.js';
+import {
+  emitError,
+  flushEvents,
+  isMachineOutput,
+  setOutputFormat,
+  withLogsOnStderr,
+} from './utils/output.js';
+import { splitList, splitTargets } from './utils/patterns.js';
+import { DEFAULT_SNAPSHOT_DIR, SNAPSHOT_KEY_ENV } from './utils/snapshot.js';
+import { formatTransform, transformEnvVars } from './utils/transform.js';
 
-const KNOWN_VERCEL_TARGETS = ['production', 'preview', 'development'] as const;
+type ParseOptions = NonNullable<ParseArgsConfig['options']>;
+
+/** Flags shared by all providers */
+const GLOBAL_OPTIONS: Record<string, ProviderOption> = {
+  env: {
+    type: 'string',
+    short: 'e',
+    placeholder: '<file>',
+    multiple: true,
+    description:
+      'Environment file, repeatable; later files win (defaults to .env.production)',
+  },
+  target: {
+    type: 'string',
+    placeholder: '<name>',
+    description:
+      'Vercel environment target ("production", "preview", "development", a list like "preview,development", or custom)',
+  },
+  stdin: {
+    type: 'boolean',
+    short: 's',
+    description: 'Read environment variables from stdin (over any --env)',
+  },
+  to: {
+    type: 'string',
+    placeholder: '<list>',
+    description:
+      'Comma-separated destinations (provider:target or deployment names)',
+  },
+  config: {
+    type: 'string',
+    placeholder: '<path>',
+    description:
+      'Config file (defaults to dotenv-push.config.* in cwd or above)',
+  },
+  plugin: {
+    type: 'string',
+    placeholder: '<path>',
+    multiple: true,
+    description: 'Load a provider from a local module (repeatable)',
+  },
+  expand: {
+    type: 'boolean',
+    description: 'Expand ${VAR} and ${VAR:-default} references',
+  },
+  'expand-env': {
+    type: 'boolean',
+    description: 'Like --expand, also resolving from the process environment',
+  },
+  schema: {
+    type: 'string',
+    placeholder: '<file>',
+    description: 'Env schema (JSON) the variables must match before pushing',
+  },
+  include: {
+    type: 'string',
+    placeholder: '<list>',
+    description: 'Only push keys matching these patterns (globs or /regex/)',
+  },
+  exclude: {
+    type: 'string',
+    placeholder: '<list>',
+    description: 'Do not push keys matching these patterns',
+  },
+  'strip-prefix': {
+    type: 'string',
+    placeholder: '<prefix>',
+    description: 'Remove a prefix from keys before pushing',
+  },
+  'add-prefix': {
+    type: 'string',
+    placeholder: '<prefix>',
+    description: 'Add a prefix to keys before pushing',
+  },
+  rename: {
+    type: 'string',
+    placeholder: '<list>',
+    description: 'Rename keys before pushing, e.g. OLD_NAME=NEW_NAME',
+  },
+  out: {
+    type: 'string',
+    short: 'o',
+    placeholder: '<file>',
+    description: 'File written by pull (defaults to --env)',
+  },
+  force: {
+    type: 'boolean',
+    short: 'f',
+    description: 'Overwrite an existing file on pull',
+  },
+  format: {
+    type: 'string',
+    placeholder: '<format>',
+    description:
+      'Output format: "text" (default), "json" or "ndjson" (event stream)',
+  },
+  snapshot: {
+    type: 'string',
+    placeholder: '<id>',
+    description: 'Snapshot restored by rollback (defaults to the latest)',
+  },
+  'dry-run': {
+    type: 'boolean',
+    description: 'Show the planned changes without applying them',
+  },
+  'overwrite-unknown': {
+    type: 'boolean',
+    description:
+      'Push keys whose remote value cannot be read (e.g. Vercel sensitive)',
+  },
+  verbose: {
+    type: 'boolean',
+    description: 'Show which env file each variable came from',
+  },
+  yes: {
+    type: 'boolean',
+    short: 'y',
+    description: 'Skip confirmation prompts',
+  },
+  help: { type: 'boolean', short: 'h', description: 'Show this help message' },
+};
+
+/** Check whether a positional names a command rather than a provider */
+function isCommand(value: string | undefined): value is Command {
+  return COMMANDS.includes(value as Command);
+}
+
+/**
+ * Format a flag list as aligned help lines
+ */
+function formatOptions(options: Record<string, ProviderOption>): string {
+  return Object.entries(options)
+    .map(([name, option]) => {
+      const short = option.short ? `-${option.short}, ` : '';
+      const placeholder = option.placeholder ? ` ${option.placeholder}` : '';
+      const flag = `${short}--${name}${placeholder}`;
+      return `  ${flag.padEnd(23)}${option.description}`;
+    })
+    .join('\n');
+}
 
 function showHelp() {
+  const providers = listProviders();
+  const providerLines = providers
+    .map(provider => `  ${provider.name.padEnd(10)}${provider.description}`)
+    .join('\n');
+  const providerOptions = providers
+    .filter(provider => Object.keys(provider.options ?? {}).length > 0)
+    .map(
+      provider =>
+        `\n${provider.name} options:\n${formatOptions(provider.options ?? {})}\n`
+    )
+    .join('');
+  const providerCommands = providers
+    .flatMap(provider =>
+      Object.entries(provider.commands ?? {}).map(
+        ([name, command]) =>
+          `  dotenv-push ${provider.name} ${name} ${command.usage}\n      ${command.description}`
+      )
+    )
+    .join('\n');
+  const examples = providers
+    .flatMap(provider => provider.examples ?? [])
+    .map(example => `  ${example}`)
+    .join('\n');
+  const environmentEntries = [
+    ...providers.flatMap(provider =>
+      Object.entries(provider.environment ?? {})
+    ),
+    ['DOTENV_PRIVATE_KEY_*', 'dotenvx private keys for encrypted files'],
+    [SNAPSHOT_KEY_ENV, 'Snapshot encryption key (64 hex characters)'],
+  ];
+  const environmentWidth = Math.max(
+    23,
+    ...environmentEntries.map(([name]) => name.length + 2)
+  );
+  const environment = environmentEntries
+    .map(
+      ([name, description]) =>
+        `  ${name.padEnd(environmentWidth)}${description}`
+    )
+    .join('\n');
+
   console.log(`
 dotenv-push - Push environment variables to cloud providers
 
 Usage:
-  dotenv-push <provider> [options]
+  dotenv-push [push] <provider|deployment> [options]
+  dotenv-push plan <provider|deployment> [options]
+  dotenv-push pull <provider|deployment> [--out <file>] [--force]
+  dotenv-push status <provider|deployment> [--format json|ndjson]
+  dotenv-push rollback <provider|deployment> [--snapshot <id>]
+  dotenv-push [push|plan] --to <provider:target,...> [options]
   command | dotenv-push <provider> [options]
 
+Commands:
+  push      Push environment variables (default)
+  plan      Show the planned changes without applying them; exits with
+            code ${EXIT_CODE_CHANGES} when there are changes (same as --dry-run)
+  pull      Download the provider's variables into a local env file
+  status    Compare the env file to the provider's variables; exits with
+            code ${EXIT_CODE_CHANGES} on drift
+  rollback  Restore the provider's variables from a snapshot saved by push
+
+Provider commands:
+${providerCommands}
+
 Providers:
-  vercel    Push to Vercel project
-  convex    Push to Convex deployment
+${providerLines}
 
 Options:
-  -p, --project <id>     Project ID (optional for Vercel, uses .vercel/project.json)
-  -d, --deployment <n>   Deployment name (for Convex, e.g., "production" or project slug)
-  -t, --token <token>    Provider token (or use environment variables)
-  -e, --env <file>       Environment file (defaults to .env.production)
-  --target <name>        Vercel environment target ("production", "preview", "development", or custom)
-  -s, --stdin            Read environment variables from stdin
-  -y, --yes              Skip confirmation prompts
-  -h, --help             Show this help message
-
+${formatOptions(GLOBAL_OPTIONS)}
+${providerOptions}
 Examples:
-  dotenv-push vercel
-  dotenv-push vercel --project abc123 --token xyz
-  dotenv-push vercel --env .env.staging --yes
-  cat .env | dotenv-push vercel --stdin
-  dotenvx decrypt --stdout | dotenv-push vercel --stdin
-  dotenv-push convex
-  dotenv-push convex --deployment my-app-production
+${examples}
+  dotenv-push mycloud --plugin ./providers/mycloud.js
+  dotenv-push push prod-web
 
 Environment Variables:
-  VERCEL_TOKEN           Vercel API token
+${environment}
 `);
 }
 
@@ -73,37 +297,194 @@ async function readStdin(): Promise<string> {
 }
 
 /**
- * Normalize environment target for Vercel
- * - Lowercase for known defaults
- * - Preserve custom environment strings
+ * Build the parseArgs option config from global and provider flags
+ * @throws {ConfigError} When two providers declare conflicting flags
+ */
+function buildParseOptions(): ParseOptions {
+  const options: ParseOptions = {};
+  const owners = new Map<string, string>();
+
+  const add = (owner: string, name: string, option: ProviderOption) => {
+    const existing = options[name];
+    if (existing) {
+      if (existing.type !== option.type || existing.short !== option.short) {
+        throw new ConfigError(
+          `Option --${name} of ${owner} conflicts with ${owners.get(name)}`
+        );
+      }
+      return;
+    }
+
+    options[name] = {
+      type: option.type,
+      ...(option.short ? { short: option.short } : {}),
+      ...(option.multiple ? { multiple: true } : {}),
+    };
+    owners.set(name, owner);
+  };
+
+  for (const [name, option] of Object.entries(GLOBAL_OPTIONS)) {
+    add('dotenv-push', name, option);
+  }
+  for (const provider of listProviders()) {
+    for (const [name, option] of Object.entries(provider.options ?? {})) {
+      add(`provider "${provider.name}"`, name, option);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Load the config file and provider modules (from the config and --plugin)
+ * before the full parse, so that plugin flags are known to the parser
+ * @returns The loaded config, if any
+ */
+async function preloadConfig(
+  args: string[]
+): Promise<LoadedConfig | undefined> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      plugin: { type: 'string', multiple: true },
+      config: { type: 'string' },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const loaded = await loadConfig(
+    typeof values.config === 'string' ? values.config : undefined
+  );
+
+  const plugins = [
+    ...(loaded?.config.plugins ?? []),
+    ...(Array.isArray(values.plugin) ? values.plugin : []),
+  ];
+  for (const plugin of plugins) {
+    if (typeof plugin === 'string') {
+      await loadProviderModule(plugin);
+    }
+  }
+
+  return loaded;
+}
+
+/** Flag values returned by parseArgs */
+type ParsedValues = ReturnType<typeof parseArgs>['values'];
+
+/**
+ * Resolve a destination spec: a named deployment from the config file or
+ * `provider[:target]`. CLI flags override values from the deployment.
+ * @returns The destination and the env file configured for it, if any
+ * @throws {ConfigError} When the provider is not registered
  */
-function normalizeTarget(env: string): string {
-  const lower = env.toLowerCase();
-  return KNOWN_VERCEL_TARGETS.includes(
-    lower as (typeof KNOWN_VERCEL_TARGETS)[number]
-  )
-    ? lower
-    : env;
+function resolveDestination(
+  spec: string,
+  values: ParsedValues,
+  loaded: LoadedConfig | undefined
+): { destination: Destination; env?: string } {
+  const deployment = loaded?.config.deployments[spec];
+
+  let providerName = deployment?.provider ?? spec;
+  let specTarget: string | undefined;
+  if (!deployment && spec.includes(':')) {
+    const separator = spec.indexOf(':');
+    providerName = spec.slice(0, separator);
+    specTarget = spec.slice(separator + 1) || undefined;
+  }
+
+  const provider = getProvider(providerName);
+  const target =
+    specTarget ?? (values.target as string | undefined) ?? deployment?.target;
+
+  const options: ProviderOptionValues = {};
+  for (const option of Object.keys(provider.options ?? {})) {
+    options[option] =
+      (values[option] as string | boolean | undefined) ?? deployment?.[option];
+  }
+
+  const name = deployment || !target ? spec : `${provider.name}:${target}`;
+  return {
+    destination: {
+      name,
+      provider,
+      args: {
+        target,
+        options,
+        settings: loaded?.config.providers?.[provider.name],
+      },
+    },
+    env: deployment?.env,
+  };
+}
+
+/**
+ * Merge the key transform flags into the config file's transform
+ * Patterns and renames add to the config file; prefixes replace it.
+ * @throws {ConfigError} When a rename entry is not OLD=NEW
+ */
+function resolveTransform(
+  values: ParsedValues,
+  loaded: LoadedConfig | undefined
+): Record<string, unknown> {
+  const configured = loaded?.config.transform;
+
+  const rename = { ...configured?.rename };
+  for (const entry of splitList(values.rename as string | undefined)) {
+    const [from, to] = entry.split('=').map(part => part.trim());
+    if (!from || !to) {
+      throw new ConfigError(
+        `Invalid --rename entry "${entry}". Use OLD_NAME=NEW_NAME.`
+      );
+    }
+    rename[from] = to;
+  }
+
+  return {
+    include: [
+      ...(configured?.include ?? []),
+      ...splitList(values.include as string | undefined),
+    ],
+    exclude: [
+      ...(configured?.exclude ?? []),
+      ...splitList(values.exclude as string | undefined),
+    ],
+    stripPrefix: values['strip-prefix'] ?? configured?.stripPrefix,
+    addPrefix: values['add-prefix'] ?? configured?.addPrefix,
+    rename,
+  };
+}
+
+/**
+ * Load the env schema from --schema or the config file
+ * @throws {ConfigError} When the schema file cannot be loaded or is invalid
+ */
+function resolveSchema(
+  values: ParsedValues,
+  loaded: LoadedConfig | undefined
+): EnvSchema | undefined {
+  const schema = (values.schema as string | undefined) ?? loaded?.config.schema;
+  return typeof schema === 'string' ? loadEnvSchema(schema) : schema;
 }
 
 /**
  * Parse and validate CLI arguments
- * @returns Validated CLI arguments
+ * @returns Validated CLI arguments and the destinations to operate on
  * @throws {ConfigError} When arguments are invalid
  */
-function parseCliArgs(): CliArgs & { stdin: boolean; deployment?: string } {
+async function parseCliArgs(): Promise<
+  CliArgs & {
+    destinations: Destination[];
+    providerCommand?: { command: ProviderCommand; positionals: string[] };
+  }
+> {
+  const args = process.argv.slice(2);
+  const loaded = await preloadConfig(args);
+
   const { values, positionals } = parseArgs({
-    args: process.argv.slice(2),
-    options: {
-      project: { type: 'string', short: 'p' },
-      deployment: { type: 'string', short: 'd' },
-      token: { type: 'string', short: 't' },
-      env: { type: 'string', short: 'e', default: '.env.production' },
-      stdin: { type: 'boolean', short: 's', default: false },
-      target: { type: 'string', default: 'production' },
-      yes: { type: 'boolean', short: 'y', default: false },
-      help: { type: 'boolean', short: 'h', default: false },
-    },
+    args,
+    options: buildParseOptions(),
     allowPositionals: true,
   });
 
@@ -112,28 +493,83 @@ function parseCliArgs(): CliArgs & { stdin: boolean; deployment?: string } {
     process.exit(0);
   }
 
-  const providerInput = positionals[0];
+  const command = isCommand(positionals[0]) ? positionals[0] : 'push';
+  const name = command === positionals[0] ? positionals[1] : positionals[0];
+  const to = typeof values.to === 'string' ? values.to.split(',') : [];
 
-  if (!providerInput) {
+  // A group name from the config file expands to its destinations
+  const specs = [
+    ...(name ? (loaded?.config.groups?.[name] ?? [name]) : []),
+    ...to,
+  ]
+    .map(spec => spec.trim())
+    .filter(Boolean);
+
+  if (specs.length === 0) {
     throw new ConfigError('Provider is required');
   }
 
-  if (!isSupportedProvider(providerInput)) {
+  if (specs.length > 1 && ['pull', 'status', 'rollback'].includes(command)) {
+    throw new ConfigError(`The ${command} command supports one destination`);
+  }
+
+  const resolved = specs.map(spec => resolveDestination(spec, values, loaded));
+
+  // Further positionals name a provider command, e.g. `vercel environments`
+  const [commandName, ...commandPositionals] = positionals.slice(
+    command === positionals[0] ? 2 : 1
+  );
+  let providerCommand:
+    | { command: ProviderCommand; positionals: string[] }
+    | undefined;
+  if (commandName) {
+    const { provider } = resolved[0].destination;
+    const found = provider.commands?.[commandName];
+    if (!found || command === positionals[0] || specs.length > 1) {
+      const names = Object.keys(provider.commands ?? {});
+      throw new ConfigError(
+        `Unexpected argument "${commandName}". Commands of ${provider.name}: ${names.join(', ') || 'none'}`
+      );
+    }
+    providerCommand = { command: found, positionals: commandPositionals };
+  }
+
+  // Variables are loaded once, so destinations must agree on the env file
+  const configuredEnvs = new Set(
+    resolved.flatMap(({ env }) => (env ? [env] : []))
+  );
+  if (!values.env && configuredEnvs.size > 1) {
     throw new ConfigError(
-      `Unsupported provider "${providerInput}". Supported providers: ${SUPPORTED_PROVIDERS.join(', ')}`
+      `Destinations use different env files (${[...configuredEnvs].join(', ')}). Pass --env to choose one.`
     );
   }
 
+  // With --stdin alone, stdin is the only source
+  const defaultEnv = values.stdin ? [] : ['.env.production'];
+
   const rawArgs = {
-    provider: providerInput,
-    project: values.project,
-    deployment: values.deployment,
-    token: values.token,
-    env: values.env ?? '.env.production',
+    command,
+    provider: name,
+    to,
+    env:
+      values.env ??
+      (configuredEnvs.size > 0 ? [...configuredEnvs] : defaultEnv),
     stdin: values.stdin ?? false,
-    target: normalizeTarget(values.target ?? 'production'),
-    yes: values.yes,
-    help: values.help,
+    target: values.target ?? 'production',
+    yes: values.yes ?? false,
+    out: values.out,
+    force: values.force ?? false,
+    dryRun: values['dry-run'] ?? false,
+    overwriteUnknown: values['overwrite-unknown'] ?? false,
+    format: values.format ?? 'text',
+    verbose: values.verbose ?? false,
+    expand: values.expand ?? false,
+    expandEnv: values['expand-env'] ?? false,
+    transform: resolveTransform(values, loaded),
+    schema: resolveSchema(values, loaded),
+    snapshotDir: loaded?.config.snapshotDir,
+    snapshot: values.snapshot,
+    help: values.help ?? false,
   };
 
   // Use Zod for additional runtime validation
@@ -141,70 +577,187 @@ function parseCliArgs(): CliArgs & { stdin: boolean; deployment?: string } {
 
   return {
     ...validatedArgs,
-    stdin: rawArgs.stdin,
-    deployment: rawArgs.deployment,
+    destinations: resolved.map(({ destination }) => destination),
+    providerCommand,
   };
 }
 
 /**
- * Main CLI entry point
+ * Load the env files and stdin as layers, later layers overriding earlier
+ * ones, with stdin on top
+ * @throws {ConfigError} When stdin is empty
+ * @throws {EnvLoadError} When an env file cannot be loaded
  */
-async function main(): Promise<void> {
-  try {
-    const args = parseCliArgs();
+async function readEnvVars(args: CliArgs): Promise<MergedEnv> {
+  const layers: EnvLayer[] = [];
+  for (const file of args.env) {
+    layers.push({ source: file, envVars: await loadEnvVars(file) });
+  }
 
-    // Get environment variables either from stdin or file
-    let envVars: Record<string, string>;
+  if (args.stdin) {
+    console.log('Reading environment variables from stdin...');
+    const stdinContent = await readStdin();
 
-    if (args.stdin) {
-      console.log('Reading environment variables from stdin...');
-      const stdinContent = await readStdin();
+    if (!stdinContent.trim()) {
+      throw new ConfigError('No input received from stdin');
+    }
 
-      if (!stdinContent.trim()) {
-        throw new ConfigError('No input received from stdin');
-      }
+    layers.push({ source: 'stdin', envVars: parseEnvFromStdin(stdinContent) });
+  }
+
+  const merged = mergeEnvLayers(layers);
 
-      envVars = parseEnvFromStdin(stdinContent);
-    } else {
-      envVars = await loadEnvVars(args.env);
+  // Provenance is shown on request and when previewing layered files
+  const previewing = args.command === 'plan' || args.dryRun;
+  if (args.verbose || (previewing && layers.length > 1)) {
+    for (const line of formatEnvSources(merged)) {
+      console.log(line);
     }
+  }
+
+  return merged;
+}
+
+/**
+ * Read the environment variables, expand references (when enabled) and
+ * apply the key transform
+ * @throws {ConfigError} When stdin is empty or the transform is invalid
+ * @throws {EnvLoadError} When an env file cannot be loaded or a reference
+ * cannot be expanded
+ */
+async function prepareEnvVars(args: CliArgs): Promise<EnvVars> {
+  const merged = await readEnvVars(args);
+  const envVars =
+    args.expand || args.expandEnv
+      ? expandEnvVars(merged, {
+          processEnv: args.expandEnv ? process.env : undefined,
+        })
+      : merged.envVars;
+
+  const result = transformEnvVars(envVars, args.transform);
+  for (const line of formatTransform(result)) {
+    console.log(line);
+  }
+  return result.envVars;
+}
 
-    switch (args.provider) {
-      case 'vercel':
-        await pushToVercel({
-          projectId: args.project,
-          token: args.token,
-          envVars,
-          target: args.target,
-          skipConfirmation: args.yes,
-        });
-        break;
-      case 'convex':
-        await pushToConvex({
-          deploymentName: args.deployment,
-          envVars,
-          skipConfirmation: args.yes,
-        });
-        break;
-      default:
-        // TypeScript ensures this case is unreachable due to type guards above
+/**
+ * Run the command selected by the CLI arguments
+ * @returns The process exit code
+ */
+async function run(): Promise<number> {
+  try {
+    const args = await parseCliArgs();
+    const { destinations } = args;
+    const snapshotDir = args.snapshotDir ?? resolvePath(DEFAULT_SNAPSHOT_DIR);
+
+    if (args.providerCommand) {
+      await args.providerCommand.command.run({
+        ...destinations[0].args,
+        positionals: args.providerCommand.positionals,
+        skipConfirmation: args.yes,
+      });
+      return 0;
+    }
+
+    if (args.command === 'pull') {
+      if (!args.out && args.env.length !== 1) {
         throw new ConfigError(
-          `Provider "${args.provider}" is not implemented yet`
+          'Pull writes a single file. Pass --out to choose it.'
         );
+      }
+      await pull({
+        destination: destinations[0],
+        out: args.out ?? args.env[0],
+        force: args.force,
+      });
+      return 0;
     }
-  } catch (error) {
-    if (error instanceof ConfigError) {
-      console.error('Error:', error.message);
-      showHelp();
-      process.exit(1);
+
+    if (args.command === 'rollback') {
+      await rollback({
+        destination: destinations[0],
+        snapshotDir,
+        snapshotId: args.snapshot,
+        skipConfirmation: args.yes,
+      });
+      return 0;
+    }
+
+    const envVars = await prepareEnvVars(args);
+
+    if (args.command === 'status') {
+      const drifted = await status({ destination: destinations[0], envVars });
+      return drifted ? EXIT_CODE_CHANGES : 0;
+    }
+
+    // Validate before any provider is called
+    if (args.schema) {
+      const targets = destinations.flatMap(destination =>
+        splitTargets(getDestinationTarget(destination) ?? '')
+      );
+      validateEnvVars(envVars, args.schema, targets);
     }
 
+    if (args.command === 'plan' || args.dryRun) {
+      const changed = await plan({
+        destinations,
+        envVars,
+        overwriteUnknown: args.overwriteUnknown,
+      });
+      return changed ? EXIT_CODE_CHANGES : 0;
+    }
+
+    await push({
+      destinations,
+      envVars,
+      skipConfirmation: args.yes,
+      overwriteUnknown: args.overwriteUnknown,
+      snapshotDir,
+    });
+    return 0;
+  } catch (error) {
+    emitError(error);
     console.error(
       'Error:',
       error instanceof Error ? error.message : String(error)
     );
-    process.exit(1);
+    if (error instanceof ConfigError && !isMachineOutput()) {
+      showHelp();
+    }
+    return 1;
   }
 }
 
+/**
+ * Read --format ahead of the full parse, so that errors while parsing are
+ * reported in the requested format
+ */
+function preparseFormat(args: string[]): OutputFormat {
+  const { values } = parseArgs({
+    args,
+    options: { format: { type: 'string' } },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  // Invalid formats are rejected by the full parse
+  return OUTPUT_FORMATS.find(format => format === values.format) ?? 'text';
+}
+
+/**
+ * Main CLI entry point
+ * With a machine-readable format, logs go to stderr and stdout only
+ * carries the structured events.
+ */
+async function main(): Promise<void> {
+  setOutputFormat(preparseFormat(process.argv.slice(2)));
+
+  const exitCode = isMachineOutput()
+    ? await withLogsOnStderr(run)
+    : await run();
+  flushEvents(exitCode !== 1);
+  process.exit(exitCode);
+}
+
 main().catch(console.error);
@@ -1,163 +1,367 @@
-import { $ } from 'zx';
 import {
   ConfigError,
-  ConvexApiError,
-  type ConvexPushOptions,
+  type OperationAction,
+  type PlanChange,
+  type Provider,
+  type ProviderOptionValues,
+  type RemoteEnvVar,
 } from '../types/index.js';
-import { prompt } from '../utils/input.js';
+import {
+  authorizePreviewDeployment,
+  type ConvexClient,
+  getConfiguredDeployment,
+  getConvexAccessToken,
+  getDeploymentUrl,
+  listEnvironmentVariables,
+  parseDeployKey,
+  updateEnvironmentVariables,
+} from '../utils/convex.js';
+import { emitFailedOperation, logOperation } from '../utils/output.js';
+import { computePlan, filterChanges } from '../utils/plan.js';
+import { DEFAULT_RETRY_OPTIONS } from '../utils/retry.js';
+
+/** Targets that select the project's production deployment */
+const PROD_TARGETS = ['prod', 'production'];
 
-// Suppress zx default verbose output
-$.verbose = false;
+/** Targets that select the CLI's default (dev) deployment */
+const DEV_TARGETS = ['dev', 'development'];
+
+/** Resolved state for talking to one Convex deployment */
+interface ConvexContext {
+  client: ConvexClient;
+  /** Deployment name or URL, for messages */
+  deployment: string;
+  /** Whether keys missing from the env file are removed */
+  prune: boolean;
+}
+
+/** Deployment selected by the flags and target */
+interface ConvexSelection {
+  deploymentName?: string;
+  prod: boolean;
+  /** Whether a dev deployment was asked for explicitly */
+  dev: boolean;
+  /** Name of the preview deployment, e.g. the git branch */
+  previewName?: string;
+}
 
 /**
- * Deploy environment variables to Convex deployment
- * Uses the Convex CLI via zx shell to manage environment variables
- * @param options Configuration for the deployment
- * @throws {ConfigError} When configuration is invalid
- * @throws {ConvexApiError} When Convex CLI calls fail
+ * Choose the deployment from the flags and the target
+ * A target such as `convex:prod` selects a deployment like --prod; any
+ * other target names the deployment. Flags take precedence over the target.
+ * @throws {ConfigError} When more than one deployment flag is passed
  */
-export async function pushToConvex(options: ConvexPushOptions): Promise<void> {
-  const { envVars, skipConfirmation, deploymentName } = options;
+function selectDeployment(
+  options: ProviderOptionValues,
+  target: string | undefined
+): ConvexSelection {
+  const deploymentName = options.deployment as string | undefined;
+  const previewName = options['preview-name'] as string | undefined;
+  const prod = options.prod === true;
+  if ([deploymentName, previewName, prod].filter(Boolean).length > 1) {
+    throw new ConfigError(
+      'Pass only one of --deployment, --preview-name and --prod'
+    );
+  }
+
+  const normalized = target?.toLowerCase();
+  if (deploymentName || previewName || prod || !normalized) {
+    return { deploymentName, previewName, prod, dev: false };
+  }
+  if (DEV_TARGETS.includes(normalized)) {
+    return { prod: false, dev: true };
+  }
+  if (PROD_TARGETS.includes(normalized)) {
+    return { prod: true, dev: false };
+  }
+  return { deploymentName: target, prod: false, dev: false };
+}
 
-  if (Object.keys(envVars).length === 0) {
-    throw new ConfigError('No environment variables provided');
+/**
+ * Describe the deployment a selection resolves to as a target: `prod`,
+ * `preview:<name>`, the deployment name or `dev`
+ * Without flags or target, a production deploy key selects production.
+ * @throws {ConfigError} When CONVEX_DEPLOY_KEY is not a deploy key
+ */
+function getSelectionTarget(selection: ConvexSelection): string {
+  if (selection.prod) {
+    return 'prod';
+  }
+  if (selection.previewName) {
+    return `preview:${selection.previewName}`;
+  }
+  if (selection.deploymentName) {
+    return selection.deploymentName;
   }
 
-  console.log(`Found ${Object.keys(envVars).length} environment variables`);
+  const deployKey = process.env.CONVEX_DEPLOY_KEY;
+  if (
+    !selection.dev &&
+    deployKey &&
+    parseDeployKey(deployKey).type === 'prod'
+  ) {
+    return 'prod';
+  }
+  return 'dev';
+}
 
-  // Build deployment flag if specified
-  const deploymentFlag = deploymentName ? `--deployment ${deploymentName}` : '';
+/**
+ * Connect with a deploy key, like the Convex CLI in CI
+ * Production and dev keys select their own deployment unless one is named;
+ * preview keys need a preview name, which is resolved to the deployment
+ * created for it.
+ * @throws {ConfigError} When the key does not fit the selected deployment
+ * @throws {ConvexApiError} When the preview deployment cannot be found
+ */
+async function connectWithDeployKey(
+  deployKey: string,
+  selection: ConvexSelection,
+  url: string | undefined
+): Promise<Omit<ConvexContext, 'prune'>> {
+  const key = parseDeployKey(deployKey);
 
-  try {
-    // Get current environment variables from Convex
-    console.log('Fetching current environment variables from Convex...');
+  if (selection.previewName) {
+    if (key.type !== 'preview') {
+      throw new ConfigError(
+        `--preview-name requires a preview deploy key, but CONVEX_DEPLOY_KEY is a ${key.type} deploy key`
+      );
+    }
+    const preview = await authorizePreviewDeployment(
+      deployKey,
+      selection.previewName,
+      DEFAULT_RETRY_OPTIONS
+    );
+    return {
+      client: {
+        url: url ?? preview.url,
+        authorization: `Convex ${preview.adminKey}`,
+        retry: DEFAULT_RETRY_OPTIONS,
+      },
+      deployment: preview.deploymentName,
+    };
+  }
 
-    let currentEnvOutput: string;
-    try {
-      const listResult = deploymentFlag
-        ? await $`npx convex env list ${deploymentFlag}`
-        : await $`npx convex env list`;
-      currentEnvOutput = listResult.stdout;
-    } catch (error: unknown) {
-      const stderr = error instanceof Error ? error.message : String(error);
-      // Check if it's an auth error or other configuration issue
-      if (stderr.includes('not logged in') || stderr.includes('auth')) {
-        throw new ConfigError(
-          'Not logged in to Convex. Run `npx convex login` first.'
-        );
-      }
-      if (stderr.includes('No convex.json')) {
-        throw new ConfigError(
-          'No convex.json found. Make sure you are in a Convex project directory.'
-        );
-      }
-      throw new ConvexApiError(
-        `Failed to list environment variables: ${stderr}`
+  if (!selection.deploymentName) {
+    if (key.type === 'preview') {
+      throw new ConfigError(
+        'CONVEX_DEPLOY_KEY is a preview deploy key. Pass --preview-name to select the preview deployment.'
+      );
+    }
+    if (
+      (selection.prod && key.type !== 'prod') ||
+      (selection.dev && key.type === 'prod')
+    ) {
+      throw new ConfigError(
+        `CONVEX_DEPLOY_KEY is a ${key.type} deploy key and cannot push to the ${selection.prod ? 'production' : 'dev'} deployment`
       );
     }
-    const currentEnvLines = currentEnvOutput
-      .split('\n')
-      .filter((line: string) => line.includes('='));
-    const currentEnvKeys = new Set(
-      currentEnvLines.map((line: string) => line.split('=')[0].trim())
+  }
+
+  return toContext(
+    selection.deploymentName ?? key.deploymentName,
+    url,
+    `Convex ${deployKey}`
+  );
+}
+
+/**
+ * Connect with the access token of `npx convex login`
+ * Without a named deployment, the CONVEX_DEPLOYMENT configured by
+ * `npx convex dev` is used.
+ * @throws {ConfigError} When not logged in or no deployment is selected
+ */
+function connectWithAccessToken(
+  selection: ConvexSelection,
+  url: string | undefined
+): Omit<ConvexContext, 'prune'> {
+  if (selection.previewName) {
+    throw new ConfigError(
+      '--preview-name requires a preview deploy key in CONVEX_DEPLOY_KEY'
+    );
+  }
+
+  const accessToken = getConvexAccessToken();
+  if (!accessToken) {
+    throw new ConfigError(
+      'Not logged in to Convex. Set CONVEX_DEPLOY_KEY or run `npx convex login` first.'
+    );
+  }
+
+  let { deploymentName } = selection;
+  if (!deploymentName && !url) {
+    const configured = getConfiguredDeployment();
+    if (configured && selection.prod === (configured.type === 'prod')) {
+      deploymentName = configured.deploymentName;
+    }
+  }
+
+  if (!deploymentName && !url) {
+    throw new ConfigError(
+      selection.prod
+        ? 'No Convex production deployment selected. Pass --deployment with its name or set CONVEX_DEPLOY_KEY to a production deploy key.'
+        : 'No Convex deployment selected. Pass --deployment, run `npx convex dev` to configure CONVEX_DEPLOYMENT or set CONVEX_DEPLOY_KEY.'
     );
-    const newEnvKeys = new Set(Object.keys(envVars));
+  }
+
+  return toContext(deploymentName, url, `Bearer ${accessToken}`);
+}
 
-    // Calculate which keys to remove (exist in current but not in new)
-    const keysToRemove = [...currentEnvKeys].filter(
-      key => key && !newEnvKeys.has(key)
+/**
+ * Build the context of a deployment given by name or URL
+ * @throws {ConfigError} When neither is given
+ */
+function toContext(
+  deploymentName: string | undefined,
+  url: string | undefined,
+  authorization: string
+): Omit<ConvexContext, 'prune'> {
+  const deploymentUrl =
+    url ?? (deploymentName ? getDeploymentUrl(deploymentName) : undefined);
+  if (!deploymentUrl) {
+    throw new ConfigError(
+      'No Convex deployment selected. Pass --deployment or set CONVEX_DEPLOY_KEY to a deployment deploy key.'
     );
+  }
+
+  return {
+    client: { url: deploymentUrl, authorization, retry: DEFAULT_RETRY_OPTIONS },
+    deployment: deploymentName ?? deploymentUrl,
+  };
+}
+
+/**
+ * Convex provider
+ * Talks to the deployment's environment variable API directly, so no
+ * Convex CLI or Node toolchain is needed at runtime. Only keys whose value
+ * differs are sent, in one request which the deployment applies together:
+ * a failed push changes nothing. Keys missing from the env file are removed
+ * unless --no-prune is passed.
+ */
+export const convexProvider: Provider<ConvexContext> = {
+  name: 'convex',
+  description: 'Push to Convex deployment',
+  options: {
+    deployment: {
+      type: 'string',
+      short: 'd',
+      placeholder: '<n>',
+      description: 'Deployment name (e.g., "happy-animal-123")',
+    },
+    prod: {
+      type: 'boolean',
+      description: 'Push to the production deployment',
+    },
+    'preview-name': {
+      type: 'string',
+      placeholder: '<name>',
+      description:
+        'Preview deployment to push to, e.g. the git branch (needs a preview deploy key)',
+    },
+    url: {
+      type: 'string',
+      placeholder: '<url>',
+      description: 'Deployment URL (defaults to https://<name>.convex.cloud)',
+    },
+    'no-prune': {
+      type: 'boolean',
+      description: 'Keep Convex variables that are not in the env file',
+    },
+  },
+  examples: [
+    'dotenv-push convex',
+    'dotenv-push convex --deployment happy-animal-123',
+    'dotenv-push convex --prod --env .env.production',
+    'CONVEX_DEPLOY_KEY=preview:... dotenv-push convex --preview-name my-branch',
+    'dotenv-push convex --env .env.local --no-prune',
+    'dotenv-push --to vercel:production,convex:prod',
+  ],
+  environment: {
+    CONVEX_DEPLOY_KEY: 'Convex deploy key (or log in with `npx convex login`)',
+    CONVEX_DEPLOYMENT:
+      'Deployment used after `npx convex login` (also read from .env.local)',
+  },
+  getTarget(args) {
+    return getSelectionTarget(selectDeployment(args.options, args.target));
+  },
 
-    // Calculate which keys will be added/updated
-    const keysToSet = Object.keys(envVars);
+  async resolve(args) {
+    const selection = selectDeployment(args.options, args.target);
+    const url = args.options.url as string | undefined;
+    const deployKey = process.env.CONVEX_DEPLOY_KEY;
+    const connection = deployKey
+      ? await connectWithDeployKey(deployKey, selection, url)
+      : connectWithAccessToken(selection, url);
+    return { ...connection, prune: args.options['no-prune'] !== true };
+  },
 
-    console.log(`Current environment variables: ${currentEnvKeys.size}`);
-    console.log(`Variables to remove: ${keysToRemove.length}`);
-    console.log(`Variables to set: ${keysToSet.length}`);
+  identify(context) {
+    return context.client.url;
+  },
 
-    // Confirm before proceeding
-    if (!skipConfirmation) {
-      console.log('\nThe following changes will be made:');
+  async list(context): Promise<RemoteEnvVar[]> {
+    console.log(
+      `Fetching current environment variables from Convex deployment ${context.deployment}...`
+    );
+    const variables = await listEnvironmentVariables(context.client);
+    const currentEnvs = Object.entries(variables).map(([key, value]) => ({
+      key,
+      value,
+    }));
 
-      if (keysToRemove.length > 0) {
-        console.log('\nVariables to be REMOVED:');
-        keysToRemove.forEach(key => {
-          console.log(`  - ${key}`);
-        });
-      }
+    console.log(`Current environment variables: ${currentEnvs.length}`);
 
-      console.log('\nVariables to be SET (created or updated):');
-      keysToSet.forEach(key => {
-        const action = currentEnvKeys.has(key) ? 'update' : 'create';
-        console.log(`  - ${key} (${action})`);
-      });
+    return currentEnvs;
+  },
 
-      const confirmation = await prompt(
-        '\nProceed with deployment? (yes/no): '
-      );
-      if (confirmation.toLowerCase() !== 'yes') {
-        console.log('Operation cancelled.');
-        return;
-      }
+  plan(context, envVars, current) {
+    return computePlan(envVars, current, { prune: context.prune });
+  },
+
+  async apply(context, plan) {
+    const toCreate = filterChanges(plan, 'create');
+    const toUpdate = filterChanges(plan, 'update');
+    const toRemove = filterChanges(plan, 'remove');
+    const changes = [...toCreate, ...toUpdate, ...toRemove];
+    const operations: [OperationAction, PlanChange[]][] = [
+      ['create', toCreate],
+      ['update', toUpdate],
+      ['remove', toRemove],
+    ];
+
+    if (changes.length === 0) {
+      console.log('No changes to apply.');
+      return;
     }
 
-    // First, set all new environment variables
-    // This ensures required vars are updated before any removals
-    console.log('Setting environment variables...');
-    for (const [key, value] of Object.entries(envVars)) {
-      try {
-        if (deploymentFlag) {
-          await $`npx convex env set ${key} ${value} ${deploymentFlag}`;
-        } else {
-          await $`npx convex env set ${key} ${value}`;
+    console.log('Updating environment variables...');
+    try {
+      await updateEnvironmentVariables(
+        context.client,
+        changes.map(({ key, value, action }) =>
+          action === 'remove'
+            ? { name: key }
+            : { name: key, value: value ?? '' }
+        )
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      for (const [action, actionChanges] of operations) {
+        for (const { key } of actionChanges) {
+          emitFailedOperation(action, key, message);
         }
-        const action = currentEnvKeys.has(key) ? 'Updated' : 'Created';
-        console.log(`${action} ${key}`);
-      } catch (error: unknown) {
-        const stderr = error instanceof Error ? error.message : String(error);
-        throw new ConvexApiError(`Failed to set ${key}: ${stderr}`);
       }
+      throw error;
     }
 
-    // Then, remove variables that are no longer needed
-    if (keysToRemove.length > 0) {
-      console.log('Removing old environment variables...');
-      for (const key of keysToRemove) {
-        try {
-          if (deploymentFlag) {
-            await $`npx convex env remove ${key} ${deploymentFlag}`;
-          } else {
-            await $`npx convex env remove ${key}`;
-          }
-          console.log(`Removed ${key}`);
-        } catch (error: unknown) {
-          const stderr = error instanceof Error ? error.message : String(error);
-          // Check if this is a required env var error
-          if (stderr.includes('is used in') || stderr.includes('config file')) {
-            console.warn(
-              `Warning: Cannot remove ${key} - it is required by Convex config`
-            );
-          } else {
-            console.warn(`Warning: Failed to remove ${key}: ${stderr}`);
-          }
-        }
+    for (const [action, actionChanges] of operations) {
+      for (const { key } of actionChanges) {
+        logOperation(action, key);
       }
     }
 
     console.log('Environment variables successfully deployed to Convex!');
-    console.log(`Total variables set: ${keysToSet.length}`);
-    if (keysToRemove.length > 0) {
-      console.log(`Total variables removed: ${keysToRemove.length}`);
-    }
-  } catch (error) {
-    if (error instanceof ConfigError || error instanceof ConvexApiError) {
-      throw error;
-    }
-
-    const message = error instanceof Error ? error.message : String(error);
-    throw new ConvexApiError(
-      `Failed to deploy to Convex: ${message}`,
-      error instanceof Error ? error : undefined
+    console.log(
+      `Created: ${toCreate.length}, updated: ${toUpdate.length}, removed: ${toRemove.length}, unchanged: ${filterChanges(plan, 'unchanged').length}`
     );
-  }
-}
+  },
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'bun:test';
+import { ConfigError, type Provider } from '../types/index.js';
+import {
+  getDestinationIdentity,
+  getProvider,
+  getProviderNames,
+  isSupportedProvider,
+  loadProviderModule,
+  registerProvider,
+} from './index.js';
+
+function createProvider(name: string): Provider<null> {
+  return {
+    name,
+    description: `Push to ${name}`,
+    resolve: async () => null,
+    list: async () => [],
+    plan: () => ({ changes: [] }),
+    apply: async () => undefined,
+  };
+}
+
+describe('Provider Registry', () => {
+  it('should register built-in providers', () => {
+    expect(getProviderNames()).toEqual(
+      expect.arrayContaining(['vercel', 'convex'])
+    );
+    expect(getProvider('vercel').description).toBe('Push to Vercel project');
+  });
+
+  it('should register and look up a custom provider', () => {
+    const provider = createProvider('custom');
+
+    registerProvider(provider);
+
+    expect(isSupportedProvider('custom')).toBe(true);
+    expect(getProvider('custom')).toBe(provider);
+  });
+
+  it('should reject duplicate provider names', () => {
+    expect(() => registerProvider(createProvider('vercel'))).toThrow(
+      'Provider "vercel" is already registered'
+    );
+  });
+
+  it('should list supported providers for unknown names', () => {
+    expect(() => getProvider('unknown')).toThrow(ConfigError);
+    expect(() => getProvider('unknown')).toThrow(
+      'Supported providers: vercel, convex'
+    );
+  });
+
+  describe('getDestinationIdentity', () => {
+    it('should prefer the identity reported by the provider', () => {
+      const provider = {
+        ...createProvider('custom'),
+        identify: () => 'team/project:production',
+      };
+
+      expect(
+        getDestinationIdentity(
+          { name: 'custom', provider, args: { options: {} } },
+          null
+        )
+      ).toBe('custom:team/project:production');
+    });
+
+    it('should fall back to the target', () => {
+      const provider = createProvider('custom');
+
+      expect(
+        getDestinationIdentity(
+          { name: 'custom', provider, args: { target: 'dev', options: {} } },
+          null
+        )
+      ).toBe('custom:dev');
+      expect(
+        getDestinationIdentity(
+          { name: 'custom', provider, args: { options: {} } },
+          null
+        )
+      ).toBe('custom');
+    });
+  });
+
+  describe('loadProviderModule', () => {
+    it('should load a provider from a default export', async () => {
+      const provider = await loadProviderModule(
+        'src/test-utils/test-provider.ts'
+      );
+
+      expect(provider.name).toBe('test-provider');
+      expect(isSupportedProvider('test-provider')).toBe(true);
+    });
+
+    it('should reject modules that cannot be loaded', async () => {
+      await expect(loadProviderModule('nonexistent.js')).rejects.toThrow(
+        'Failed to load provider module nonexistent.js'
+      );
+    });
+
+    it('should reject modules without a provider export', async () => {
+      await expect(
+        loadProviderModule('src/test-utils/test-helpers.ts')
+      ).rejects.toThrow('must export a provider as default or "provider"');
+    });
+  });
+});
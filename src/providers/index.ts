@@ -0,0 +1,121 @@
+/**
+ * Provider registry
+ * Built-in providers are registered on import; additional providers can be
+ * registered programmatically or loaded from a local module path.
+ */
+
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+  ConfigError,
+  type Destination,
+  isProvider,
+  type Provider,
+  type ProviderName,
+} from '../types/index.js';
+import { convexProvider } from './convex.js';
+import { vercelProvider } from './vercel.js';
+
+const registry = new Map<ProviderName, Provider>();
+
+/**
+ * Register a provider implementation
+ * @throws {ConfigError} When a provider with the same name is registered
+ */
+export function registerProvider(provider: Provider): void {
+  if (registry.has(provider.name)) {
+    throw new ConfigError(`Provider "${provider.name}" is already registered`);
+  }
+
+  registry.set(provider.name, provider);
+}
+
+/**
+ * Look up a registered provider by name
+ * @throws {ConfigError} When no provider with that name is registered
+ */
+export function getProvider(name: ProviderName): Provider {
+  const provider = registry.get(name);
+  if (!provider) {
+    throw new ConfigError(
+      `Unsupported provider "${name}". Supported providers: ${getProviderNames().join(', ')}`
+    );
+  }
+
+  return provider;
+}
+
+/** All registered providers in registration order */
+export function listProviders(): Provider[] {
+  return [...registry.values()];
+}
+
+/** Names of all registered providers in registration order */
+export function getProviderNames(): ProviderName[] {
+  return [...registry.keys()];
+}
+
+/** Type guard for checking if value names a registered provider */
+export function isSupportedProvider(value: unknown): value is ProviderName {
+  return typeof value === 'string' && registry.has(value);
+}
+
+/**
+ * Get the target a destination operates on, as selected by the provider's
+ * flags, given or falling back to the provider's default
+ */
+export function getDestinationTarget(
+  destination: Destination
+): string | undefined {
+  const { provider, args } = destination;
+  return provider.getTarget?.(args) ?? args.target ?? provider.defaultTarget;
+}
+
+/**
+ * Get the identity of a resolved destination, prefixed with the provider
+ * name, e.g. "vercel:team_123/prj_456:production"
+ */
+export function getDestinationIdentity(
+  destination: Destination,
+  context: unknown
+): string {
+  const { provider } = destination;
+  const identity =
+    provider.identify?.(context) ?? getDestinationTarget(destination);
+  return identity ? `${provider.name}:${identity}` : provider.name;
+}
+
+/**
+ * Load and register a provider from a local module
+ * The module must export the provider as its default export or as `provider`.
+ * @param modulePath Path to the module, relative to the working directory
+ * @returns The registered provider
+ * @throws {ConfigError} When the module cannot be loaded or is not a provider
+ */
+export async function loadProviderModule(
+  modulePath: string
+): Promise<Provider> {
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(resolve(modulePath)).href);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(
+      `Failed to load provider module ${modulePath}: ${message}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const provider = mod.default ?? mod.provider;
+  if (!isProvider(provider)) {
+    throw new ConfigError(
+      `Provider module ${modulePath} must export a provider as default or "provider"`
+    );
+  }
+
+  registerProvider(provider);
+  return provider;
+}
+
+registerProvider(vercelProvider);
+registerProvider(convexProvider);
@@ -1,8 +1,40 @@
-import { describe, expect, it } from 'bun:test';
+import { afterEach, describe, expect, it, mock } from 'bun:test';
 import { spawn } from 'child_process';
+import {
+  createMockVercel,
+  type MockVercelClient,
+  type MockVercelProjects,
+} from '../test-utils/test-helpers.js';
+import { ApplyError } from '../types/index.js';
+import { vercelProvider } from './vercel.js';
+
+const MockVercel = createMockVercel();
+
+await mock.module('@vercel/sdk', () => ({
+  Vercel: MockVercel,
+}));
 
 const CLI_PATH = 'src/index.ts';
 
+/** The mocked SDK client behind a resolved context */
+function mockClient(context: { vercel: unknown }): MockVercelClient {
+  return context.vercel as MockVercelClient;
+}
+
+/** Resolve a provider context backed by a fresh Vercel SDK mock */
+async function resolveMockContext(
+  options: Record<string, unknown> = {},
+  settings?: Record<string, unknown>,
+  target = 'production'
+) {
+  const context = await vercelProvider.resolve({
+    target,
+    options: { project: 'test-project', token: 'test-token', ...options },
+    settings,
+  });
+  return { context, projects: mockClient(context).projects };
+}
+
 describe('Full Command Integration Tests', () => {
   describe('Help Command', () => {
     it('should display help with --help flag', async () => {
@@ -19,6 +51,15 @@ describe('Full Command Integration Tests', () => {
   });
 
   describe('Error Cases', () => {
+    it('should reject arguments that are not provider commands', async () => {
+      const result = await runCLI(['vercel', 'deploy']);
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(
+        'Error: Unexpected argument "deploy". Commands of vercel: environments'
+      );
+    });
+
     it('should show error when no provider specified', async () => {
       const result = await runCLI([]);
 
@@ -37,6 +78,26 @@ describe('Full Command Integration Tests', () => {
     });
   });
 
+  describe('Pull Command', () => {
+    it('should refuse to overwrite an existing file without --force', async () => {
+      const result = await runCLI([
+        'pull',
+        'vercel',
+        '--project',
+        'test-project',
+        '--token',
+        'fake-token',
+        '--out',
+        'package.json',
+      ]);
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain(
+        'package.json already exists. Use --force to overwrite it.'
+      );
+    });
+  });
+
   describe('Vercel Provider', () => {
     it('should fail gracefully when missing project configuration', async () => {
       // This test assumes no .vercel/project.json exists in test environment
@@ -49,6 +110,27 @@ describe('Full Command Integration Tests', () => {
       expect(result.stderr).toContain('Project ID is required');
     });
 
+    it('should report errors as json events with --format json', async () => {
+      const result = await runCLIWithStdin(
+        ['vercel', '--stdin', '--token', 'fake-token', '--format', 'json'],
+        'TEST_VAR=value'
+      );
+
+      expect(result.code).toBe(1);
+      const output = JSON.parse(result.stdout);
+      expect(output.ok).toBe(false);
+      expect(output.events).toContainEqual({
+        type: 'env',
+        count: 1,
+        keys: ['TEST_VAR'],
+      });
+      expect(output.events.at(-1)).toMatchObject({
+        type: 'error',
+        code: 'CONFIG_ERROR',
+      });
+      expect(result.stderr).toContain('Project ID is required');
+    });
+
     it('should fail gracefully with missing environment file', async () => {
       const result = await runCLI([
         'vercel',
@@ -126,6 +208,855 @@ describe('Full Command Integration Tests', () => {
   });
 });
 
+describe('Vercel Provider Sync', () => {
+  it('should compare against decrypted values of the target only', async () => {
+    const { context, projects } = await resolveMockContext();
+    projects.filterProjectEnvs.mockResolvedValue({
+      envs: [
+        {
+          id: 'env-1',
+          key: 'API_KEY',
+          value: 'secret',
+          type: 'encrypted',
+          decrypted: true,
+          target: ['production'],
+        },
+        {
+          id: 'env-2',
+          key: 'PREVIEW_ONLY',
+          value: 'x',
+          type: 'plain',
+          target: ['preview'],
+        },
+        {
+          id: 'env-3',
+          key: 'WRITE_ONLY',
+          value: '',
+          type: 'sensitive',
+          target: ['production'],
+        },
+      ],
+    });
+
+    const current = await vercelProvider.list(context);
+
+    expect(projects.filterProjectEnvs).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      decrypt: 'true',
+    });
+    expect(current as unknown[]).toEqual([
+      {
+        key: 'API_KEY',
+        id: 'env-1',
+        value: 'secret',
+        type: 'encrypted',
+        targets: ['production'],
+      },
+      {
+        key: 'WRITE_ONLY',
+        id: 'env-3',
+        value: undefined,
+        type: 'sensitive',
+        targets: ['production'],
+      },
+    ]);
+  });
+
+  it('should only create, edit and prune what changed', async () => {
+    const { context, projects } = await resolveMockContext({ prune: true });
+    const plan = vercelProvider.plan(
+      context,
+      { SAME: 'same', CHANGED: 'new', ADDED: 'added' },
+      [
+        { key: 'SAME', id: 'env-1', value: 'same' },
+        { key: 'CHANGED', id: 'env-2', value: 'old' },
+        { key: 'STALE', id: 'env-3', value: 'stale' },
+      ]
+    );
+
+    await vercelProvider.apply(context, plan);
+
+    expect(projects.createProjectEnv).toHaveBeenCalledTimes(1);
+    expect(projects.createProjectEnv.mock.calls[0][0].requestBody).toEqual([
+      {
+        key: 'ADDED',
+        value: 'added',
+        target: ['production'],
+        type: 'encrypted',
+      },
+    ]);
+    expect(projects.editProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-2',
+      requestBody: { value: 'new', type: 'encrypted' },
+    });
+    expect(projects.removeProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-3',
+    });
+  });
+
+  it('should keep stale variables without --prune', async () => {
+    const { context, projects } = await resolveMockContext();
+    const plan = vercelProvider.plan(context, { SAME: 'same' }, [
+      { key: 'SAME', id: 'env-1', value: 'same' },
+      { key: 'STALE', id: 'env-2', value: 'stale' },
+    ]);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(plan.changes.map(change => change.action)).toEqual(['unchanged']);
+    expect(projects.createProjectEnv).not.toHaveBeenCalled();
+    expect(projects.editProjectEnv).not.toHaveBeenCalled();
+    expect(projects.removeProjectEnv).not.toHaveBeenCalled();
+  });
+
+  it('should revert applied changes when a later call fails', async () => {
+    const { context, projects } = await resolveMockContext({ prune: true });
+    projects.createProjectEnv.mockResolvedValue({
+      created: [{ id: 'env-new', key: 'ADDED' }],
+      failed: [],
+    });
+    projects.removeProjectEnv.mockRejectedValueOnce(new Error('forbidden'));
+    const plan = vercelProvider.plan(context, { CHANGED: 'new', ADDED: 'a' }, [
+      { key: 'CHANGED', id: 'env-1', value: 'old', type: 'encrypted' },
+      { key: 'STALE', id: 'env-2', value: 'stale' },
+    ]);
+
+    const error = await vercelProvider.apply(context, plan).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApplyError);
+    expect(error.message).toContain('forbidden');
+    expect(error.reverted).toEqual(['CHANGED', 'ADDED']);
+    expect(error.unreverted).toEqual([]);
+    expect(projects.editProjectEnv).toHaveBeenLastCalledWith({
+      idOrName: 'test-project',
+      id: 'env-1',
+      requestBody: { value: 'old', type: 'encrypted' },
+    });
+    expect(projects.removeProjectEnv).toHaveBeenLastCalledWith({
+      idOrName: 'test-project',
+      id: 'env-new',
+    });
+  });
+
+  it('should report batch creates that failed', async () => {
+    const { context, projects } = await resolveMockContext();
+    projects.createProjectEnv.mockResolvedValue({
+      created: [{ id: 'env-a', key: 'A' }],
+      failed: [{ error: { code: 'bad', message: 'invalid', key: 'B' } }],
+    });
+    const plan = vercelProvider.plan(context, { A: 'a', B: 'b' }, []);
+
+    const error = await vercelProvider.apply(context, plan).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApplyError);
+    expect(error.message).toContain('Failed to create B: invalid');
+    expect(error.reverted).toEqual(['A']);
+    expect(projects.removeProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-a',
+    });
+  });
+});
+
+describe('Vercel Variable Types', () => {
+  /** Plan a set of keys against an empty project and map them to types */
+  function planTypes(context: unknown, keys: string[]) {
+    const envVars = Object.fromEntries(keys.map(key => [key, 'value']));
+    const plan = vercelProvider.plan(context as never, envVars, []);
+    return Object.fromEntries(
+      plan.changes.map(change => [change.key, change.type])
+    );
+  }
+
+  it('should keep the built-in secret patterns by default', async () => {
+    const { context } = await resolveMockContext();
+
+    expect(
+      planTypes(context, ['API_KEY', 'DB_PASSWORD', 'DATABASE_URL'])
+    ).toEqual({
+      API_KEY: 'encrypted',
+      DB_PASSWORD: 'encrypted',
+      DATABASE_URL: 'encrypted',
+    });
+  });
+
+  it('should use the configured default type for other keys', async () => {
+    const { context } = await resolveMockContext(
+      { 'default-type': 'sensitive' },
+      { defaultType: 'plain' }
+    );
+
+    expect(planTypes(context, ['DATABASE_URL'])).toEqual({
+      DATABASE_URL: 'sensitive',
+    });
+  });
+
+  it('should apply flags over config settings', async () => {
+    const { context } = await resolveMockContext(
+      {
+        'secret-type': 'sensitive',
+        'plain-keys': 'NEXT_PUBLIC_*',
+        'key-types': 'SENTRY_DSN=encrypted',
+      },
+      {
+        defaultType: 'plain',
+        secretKeys: ['/_URL$/'],
+        keyTypes: { SENTRY_DSN: 'plain' },
+      }
+    );
+
+    expect(
+      planTypes(context, [
+        'DATABASE_URL',
+        'NEXT_PUBLIC_API_KEY',
+        'SENTRY_DSN',
+        'PORT',
+      ])
+    ).toEqual({
+      DATABASE_URL: 'sensitive',
+      NEXT_PUBLIC_API_KEY: 'plain',
+      SENTRY_DSN: 'encrypted',
+      PORT: 'plain',
+    });
+  });
+
+  it('should store sensitive keys as encrypted in development', async () => {
+    const { context } = await resolveMockContext(
+      { 'secret-type': 'sensitive' },
+      undefined,
+      'development'
+    );
+
+    expect(planTypes(context, ['API_KEY'])).toEqual({ API_KEY: 'encrypted' });
+  });
+
+  it('should update unchanged values stored with another type', async () => {
+    const { context, projects } = await resolveMockContext({
+      'key-types': 'API_KEY=sensitive',
+    });
+    const plan = vercelProvider.plan(context, { API_KEY: 'same' }, [
+      { key: 'API_KEY', id: 'env-1', value: 'same', type: 'encrypted' },
+    ]);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(plan.changes[0].action).toBe('update');
+    expect(projects.editProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-1',
+      requestBody: { value: 'same', type: 'sensitive' },
+    });
+  });
+
+  it('should keep stored types unless asked to lower them', async () => {
+    const current = [
+      { key: 'WEBHOOK_URL', id: 'env-1', value: 'same', type: 'sensitive' },
+      { key: 'PORT', id: 'env-2', value: 'old', type: 'encrypted' },
+    ];
+    const envVars = { WEBHOOK_URL: 'same', PORT: '3000' };
+
+    const { context } = await resolveMockContext({}, { defaultType: 'plain' });
+    const kept = vercelProvider.plan(context, envVars, current);
+
+    expect(
+      kept.changes.map(({ key, action, type }) => ({ key, action, type }))
+    ).toEqual([
+      { key: 'WEBHOOK_URL', action: 'unchanged', type: 'sensitive' },
+      { key: 'PORT', action: 'update', type: 'encrypted' },
+    ]);
+
+    const downgrade = await resolveMockContext(
+      { 'downgrade-types': true },
+      { defaultType: 'plain' }
+    );
+    const lowered = vercelProvider.plan(downgrade.context, envVars, current);
+
+    expect(
+      lowered.changes.map(({ key, action, type }) => ({ key, action, type }))
+    ).toEqual([
+      { key: 'WEBHOOK_URL', action: 'update', type: 'plain' },
+      { key: 'PORT', action: 'update', type: 'plain' },
+    ]);
+  });
+
+  it('should reject invalid types and settings', async () => {
+    await expect(
+      resolveMockContext({ 'secret-type': 'hidden' })
+    ).rejects.toThrow('Invalid --secret-type "hidden"');
+    await expect(
+      resolveMockContext({ 'default-type': 'hidden' })
+    ).rejects.toThrow('Invalid --default-type "hidden"');
+    await expect(
+      resolveMockContext({ 'key-types': 'API_KEY' })
+    ).rejects.toThrow('Invalid --key-types entry "API_KEY"');
+    await expect(
+      resolveMockContext({}, { secretType: 'plain' })
+    ).rejects.toThrow('Invalid vercel settings in config file');
+  });
+});
+
+describe('Vercel Git Branch Scoping', () => {
+  const envs = [
+    {
+      id: 'env-1',
+      key: 'API_URL',
+      value: 'generic',
+      type: 'plain',
+      target: ['preview'],
+    },
+    {
+      id: 'env-2',
+      key: 'API_URL',
+      value: 'branch',
+      type: 'plain',
+      target: ['preview'],
+      gitBranch: 'feature-x',
+    },
+    {
+      id: 'env-3',
+      key: 'OTHER_BRANCH',
+      value: 'x',
+      type: 'plain',
+      target: ['preview'],
+      gitBranch: 'feature-y',
+    },
+  ];
+
+  it('should only sync the variables of the given branch', async () => {
+    const { context, projects } = await resolveMockContext(
+      { 'git-branch': 'feature-x', prune: true },
+      undefined,
+      'preview'
+    );
+    projects.filterProjectEnvs.mockResolvedValue({ envs });
+
+    const current = await vercelProvider.list(context);
+    const plan = vercelProvider.plan(context, { NEW_FLAG: 'new' }, current);
+    await vercelProvider.apply(context, plan);
+
+    expect(projects.filterProjectEnvs).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      gitBranch: 'feature-x',
+      decrypt: 'true',
+    });
+    expect(current as unknown[]).toEqual([
+      {
+        key: 'API_URL',
+        id: 'env-2',
+        value: 'branch',
+        type: 'plain',
+        targets: ['preview'],
+      },
+    ]);
+    expect(projects.createProjectEnv.mock.calls[0][0].requestBody).toEqual([
+      {
+        key: 'NEW_FLAG',
+        value: 'new',
+        target: ['preview'],
+        type: 'encrypted',
+        gitBranch: 'feature-x',
+      },
+    ]);
+    expect(projects.removeProjectEnv).toHaveBeenCalledTimes(1);
+    expect(projects.removeProjectEnv.mock.calls[0][0].id).toBe('env-2');
+  });
+
+  it('should leave branch variables out of generic preview pushes', async () => {
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'preview'
+    );
+    projects.filterProjectEnvs.mockResolvedValue({ envs });
+
+    const current = await vercelProvider.list(context);
+
+    expect(current as unknown[]).toEqual([
+      {
+        key: 'API_URL',
+        id: 'env-1',
+        value: 'generic',
+        type: 'plain',
+        targets: ['preview'],
+      },
+    ]);
+  });
+
+  it('should reject --git-branch for other targets', async () => {
+    await expect(
+      resolveMockContext({ 'git-branch': 'feature-x' })
+    ).rejects.toThrow(
+      '--git-branch only applies to the preview target, not "production"'
+    );
+  });
+});
+
+describe('Vercel Multiple Targets', () => {
+  /** Record the order of Vercel calls as "method id-or-keys" entries */
+  function recordCalls(projects: MockVercelProjects) {
+    const calls: string[] = [];
+    projects.createProjectEnv.mockImplementation(async ({ requestBody }) => {
+      const records = Array.isArray(requestBody) ? requestBody : [requestBody];
+      calls.push(`create ${records.map(record => record.key)}`);
+    });
+    projects.editProjectEnv.mockImplementation(async ({ id }) => {
+      calls.push(`edit ${id}`);
+    });
+    projects.removeProjectEnv.mockImplementation(async ({ id }) => {
+      calls.push(`remove ${id}`);
+    });
+    return calls;
+  }
+
+  it('should create one variable spanning all targets', async () => {
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'Preview, development'
+    );
+    const plan = vercelProvider.plan(context, { API_URL: 'x' }, []);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(context.target).toBe('preview,development');
+    expect(projects.createProjectEnv.mock.calls[0][0].requestBody).toEqual([
+      {
+        key: 'API_URL',
+        value: 'x',
+        target: ['preview', 'development'],
+        type: 'encrypted',
+      },
+    ]);
+  });
+
+  it('should list records on any of the targets', async () => {
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'preview+development'
+    );
+    projects.filterProjectEnvs.mockResolvedValue({
+      envs: [
+        {
+          id: 'env-1',
+          key: 'A',
+          value: 'a',
+          type: 'plain',
+          target: ['production'],
+        },
+        {
+          id: 'env-2',
+          key: 'B',
+          value: 'b',
+          type: 'plain',
+          target: ['production', 'preview'],
+        },
+      ],
+    });
+
+    const current = await vercelProvider.list(context);
+
+    expect(current as unknown[]).toEqual([
+      {
+        key: 'B',
+        id: 'env-2',
+        value: 'b',
+        type: 'plain',
+        targets: ['production', 'preview'],
+      },
+    ]);
+  });
+
+  it('should leave shared variables alone when they already match', async () => {
+    const { context } = await resolveMockContext({}, undefined, 'preview');
+    const plan = vercelProvider.plan(context, { API_URL: 'x' }, [
+      {
+        key: 'API_URL',
+        id: 'env-1',
+        value: 'x',
+        type: 'encrypted',
+        targets: ['production', 'preview'],
+      },
+    ] as never);
+
+    expect(plan.changes.map(change => change.action)).toEqual(['unchanged']);
+  });
+
+  it('should split changed shared variables instead of editing them', async () => {
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'preview'
+    );
+    const calls = recordCalls(projects);
+    const plan = vercelProvider.plan(context, { API_URL: 'new' }, [
+      {
+        key: 'API_URL',
+        id: 'env-1',
+        value: 'old',
+        type: 'encrypted',
+        targets: ['production', 'preview'],
+      },
+    ] as never);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(calls).toEqual(['edit env-1', 'create API_URL']);
+    expect(projects.editProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-1',
+      requestBody: { target: ['production'] },
+    });
+    expect(projects.createProjectEnv.mock.calls[0][0].requestBody).toEqual([
+      { key: 'API_URL', value: 'new', target: ['preview'], type: 'encrypted' },
+    ]);
+  });
+
+  it('should widen a variable and remove its duplicates', async () => {
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'preview,development'
+    );
+    const calls = recordCalls(projects);
+    const plan = vercelProvider.plan(context, { API_URL: 'x' }, [
+      {
+        key: 'API_URL',
+        id: 'env-1',
+        value: 'x',
+        type: 'encrypted',
+        targets: ['preview'],
+      },
+      {
+        key: 'API_URL',
+        id: 'env-2',
+        value: 'y',
+        type: 'encrypted',
+        targets: ['development'],
+      },
+    ] as never);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(plan.changes.map(change => change.action)).toEqual([
+      'update',
+      'remove',
+    ]);
+    expect(calls).toEqual(['remove env-2', 'edit env-1']);
+    expect(projects.editProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-1',
+      requestBody: {
+        value: 'x',
+        type: 'encrypted',
+        target: ['preview', 'development'],
+      },
+    });
+  });
+
+  it('should only take the target off shared stale variables', async () => {
+    const { context, projects } = await resolveMockContext({ prune: true });
+    const plan = vercelProvider.plan(context, {}, [
+      {
+        key: 'STALE',
+        id: 'env-1',
+        value: 'x',
+        type: 'encrypted',
+        targets: ['production', 'preview'],
+      },
+    ] as never);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(projects.removeProjectEnv).not.toHaveBeenCalled();
+    expect(projects.editProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      id: 'env-1',
+      requestBody: { target: ['preview'] },
+    });
+  });
+
+  it('should restore the shared variable when the split fails', async () => {
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'preview'
+    );
+    projects.createProjectEnv.mockRejectedValue(new Error('invalid'));
+    const plan = vercelProvider.plan(context, { API_URL: 'new' }, [
+      {
+        key: 'API_URL',
+        id: 'env-1',
+        value: 'old',
+        type: 'encrypted',
+        targets: ['production', 'preview'],
+      },
+    ] as never);
+
+    const error = await vercelProvider.apply(context, plan).catch(e => e);
+
+    expect(error).toBeInstanceOf(ApplyError);
+    expect(error.reverted).toEqual(['API_URL']);
+    expect(projects.editProjectEnv).toHaveBeenLastCalledWith({
+      idOrName: 'test-project',
+      id: 'env-1',
+      requestBody: { target: ['production', 'preview'] },
+    });
+  });
+
+  it('should reject lists with custom environments', async () => {
+    await expect(
+      resolveMockContext({}, undefined, 'preview,staging')
+    ).rejects.toThrow('Invalid target "preview,staging"');
+    await expect(
+      resolveMockContext(
+        { 'git-branch': 'x' },
+        undefined,
+        'preview,development'
+      )
+    ).rejects.toThrow('--git-branch only applies to the preview target');
+  });
+});
+
+describe('Vercel Custom Environments', () => {
+  const staging = { id: 'env_staging', slug: 'staging' };
+
+  /** Serve the given custom environments from every new client */
+  function serveEnvironments(environments: unknown[]) {
+    const clients: MockVercelClient[] = [];
+    MockVercel.onCreate = client => {
+      client.environment.getProjectsByIdOrNameCustomEnvironments.mockResolvedValue(
+        { environments }
+      );
+      client.environment.createCustomEnvironment.mockResolvedValue({
+        id: 'env_new',
+        slug: 'new',
+      });
+      clients.push(client);
+    };
+    return clients;
+  }
+
+  /** Run the environments command with test credentials */
+  function runEnvironments(
+    positionals: string[],
+    options: Record<string, unknown> = {}
+  ) {
+    return vercelProvider.commands?.environments.run({
+      positionals,
+      skipConfirmation: true,
+      options: { project: 'test-project', token: 'test-token', ...options },
+    });
+  }
+
+  afterEach(() => {
+    MockVercel.onCreate = undefined;
+  });
+
+  it('should push to an existing custom environment', async () => {
+    serveEnvironments([staging]);
+    const { context, projects } = await resolveMockContext(
+      {},
+      undefined,
+      'Staging'
+    );
+    const plan = vercelProvider.plan(context, { API_URL: 'x' }, []);
+
+    await vercelProvider.apply(context, plan);
+
+    expect(projects.createProjectEnv.mock.calls[0][0].requestBody).toEqual([
+      {
+        key: 'API_URL',
+        value: 'x',
+        type: 'encrypted',
+        customEnvironmentIds: ['env_staging'],
+      },
+    ]);
+  });
+
+  it('should require --create-environment for missing environments', async () => {
+    serveEnvironments([]);
+
+    await expect(resolveMockContext({}, undefined, 'qa')).rejects.toThrow(
+      'Pass --create-environment to create it.'
+    );
+  });
+
+  it('should create a missing environment when applying', async () => {
+    serveEnvironments([]);
+    const { context, projects } = await resolveMockContext(
+      {
+        'create-environment': true,
+        'branch-matcher': 'startsWith:release/',
+      },
+      undefined,
+      'new'
+    );
+    const { environment } = mockClient(context);
+    projects.filterProjectEnvs.mockResolvedValue({ envs: [] });
+
+    const current = await vercelProvider.list(context);
+    const plan = vercelProvider.plan(context, { API_URL: 'x' }, current);
+    expect(environment.createCustomEnvironment).not.toHaveBeenCalled();
+
+    await vercelProvider.apply(context, plan);
+
+    expect(environment.createCustomEnvironment).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      requestBody: {
+        slug: 'new',
+        branchMatcher: { type: 'startsWith', pattern: 'release/' },
+      },
+    });
+    expect(
+      projects.createProjectEnv.mock.calls[0][0].requestBody
+    ).toMatchObject([{ customEnvironmentIds: ['env_new'] }]);
+  });
+
+  it('should reject invalid environment flags', async () => {
+    await expect(
+      resolveMockContext({ 'create-environment': true }, undefined, 'preview')
+    ).rejects.toThrow('--create-environment only applies to custom');
+    await expect(
+      resolveMockContext(
+        { 'create-environment': true, 'branch-matcher': 'contains:x' },
+        undefined,
+        'qa'
+      )
+    ).rejects.toThrow('Invalid --branch-matcher "contains:x"');
+    await expect(
+      resolveMockContext({ 'branch-matcher': 'equals:qa' }, undefined, 'qa')
+    ).rejects.toThrow('--branch-matcher only applies together with');
+  });
+
+  it('should list, create and delete custom environments', async () => {
+    const clients = serveEnvironments([staging]);
+
+    await runEnvironments([]);
+    await runEnvironments(['create', 'qa'], { 'branch-matcher': 'equals:qa' });
+    await runEnvironments(['delete', 'STAGING']);
+
+    expect(
+      clients[0].environment.getProjectsByIdOrNameCustomEnvironments
+    ).toHaveBeenCalledWith({ idOrName: 'test-project' });
+    expect(clients[1].environment.createCustomEnvironment).toHaveBeenCalledWith(
+      {
+        idOrName: 'test-project',
+        requestBody: {
+          slug: 'qa',
+          branchMatcher: { type: 'equals', pattern: 'qa' },
+        },
+      }
+    );
+    expect(clients[2].environment.removeCustomEnvironment).toHaveBeenCalledWith(
+      { idOrName: 'test-project', environmentSlugOrId: 'env_staging' }
+    );
+  });
+
+  it('should reject unknown actions and missing names', async () => {
+    await expect(runEnvironments(['rename'])).rejects.toThrow(
+      'Unknown environments action "rename"'
+    );
+    await expect(runEnvironments(['create'])).rejects.toThrow(
+      'Name the custom environment to create'
+    );
+    serveEnvironments([]);
+    await expect(runEnvironments(['delete', 'qa'])).rejects.toThrow(
+      'Custom environment "qa" not found'
+    );
+  });
+});
+
+describe('Vercel Team Scoping', () => {
+  it('should pass --team to every call as a slug or team id', async () => {
+    const bySlug = await resolveMockContext({ team: 'acme', prune: true });
+    const plan = vercelProvider.plan(bySlug.context, { ADDED: 'a' }, [
+      { key: 'STALE', id: 'env-1', value: 'stale' },
+    ]);
+    await vercelProvider.apply(bySlug.context, plan);
+
+    expect(bySlug.projects.createProjectEnv.mock.calls[0][0]).toMatchObject({
+      idOrName: 'test-project',
+      slug: 'acme',
+    });
+    expect(bySlug.projects.removeProjectEnv).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      slug: 'acme',
+      id: 'env-1',
+    });
+
+    const byId = await resolveMockContext({ team: 'team_123' });
+    byId.projects.filterProjectEnvs.mockResolvedValue({ envs: [] });
+    await vercelProvider.list(byId.context);
+
+    expect(byId.projects.filterProjectEnvs).toHaveBeenCalledWith({
+      idOrName: 'test-project',
+      teamId: 'team_123',
+      decrypt: 'true',
+    });
+  });
+
+  it('should explain when the token cannot access the team', async () => {
+    const { context, projects } = await resolveMockContext({ team: 'acme' });
+    projects.filterProjectEnvs.mockRejectedValue(
+      Object.assign(new Error('Forbidden'), { statusCode: 403 })
+    );
+
+    await expect(vercelProvider.list(context)).rejects.toThrow(
+      'Vercel token does not have access to team "acme"'
+    );
+  });
+});
+
+describe('Vercel Retries', () => {
+  /** Create an error shaped like a Vercel SDK rate limit error */
+  function rateLimitError() {
+    return Object.assign(new Error('Too many requests'), {
+      statusCode: 429,
+      headers: new Headers({ 'retry-after': '0' }),
+    });
+  }
+
+  it('should retry rate-limited calls after Retry-After', async () => {
+    const { context, projects } = await resolveMockContext({ prune: true });
+    projects.filterProjectEnvs.mockRejectedValueOnce(rateLimitError());
+    projects.filterProjectEnvs.mockResolvedValue({ envs: [] });
+    projects.removeProjectEnv.mockRejectedValueOnce(rateLimitError());
+
+    await vercelProvider.list(context);
+    const plan = vercelProvider.plan(context, {}, [
+      { key: 'STALE', id: 'env-1', value: 'stale' },
+    ]);
+    await vercelProvider.apply(context, plan);
+
+    expect(projects.filterProjectEnvs).toHaveBeenCalledTimes(2);
+    expect(projects.removeProjectEnv).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up after --max-attempts', async () => {
+    const { context, projects } = await resolveMockContext({
+      'max-attempts': '2',
+    });
+    projects.filterProjectEnvs.mockRejectedValue(rateLimitError());
+
+    await expect(vercelProvider.list(context)).rejects.toThrow(
+      'Failed to fetch Vercel environment variables: Too many requests'
+    );
+    expect(projects.filterProjectEnvs).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject invalid retry and concurrency settings', async () => {
+    await expect(resolveMockContext({ concurrency: '0' })).rejects.toThrow(
+      'Invalid --concurrency "0". Use a positive integer.'
+    );
+    await expect(resolveMockContext({}, { maxAttempts: 1.5 })).rejects.toThrow(
+      'Invalid vercel settings in config file'
+    );
+  });
+});
+
 interface CLIResult {
   code: number;
   stdout: string;
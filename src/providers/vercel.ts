@@ -1,33 +1,216 @@
 import { Vercel } from '@vercel/sdk';
+import type {
+  CreateCustomEnvironmentBranchMatcher as BranchMatcher,
+  CreateCustomEnvironmentRequestBody,
+} from '@vercel/sdk/models/createcustomenvironmentop.js';
 import {
   CreateProjectEnv11,
   CreateProjectEnv12,
+  CreateProjectEnvResponseBody,
   OneTarget,
 } from '@vercel/sdk/models/createprojectenvop.js';
+import type {
+  EditProjectEnvRequestBody,
+  EditProjectEnvTarget,
+} from '@vercel/sdk/models/editprojectenvop.js';
 import { FilterProjectEnvsResponseBody3 } from '@vercel/sdk/models/filterprojectenvsop.js';
+import type { GetProjectsByIdOrNameCustomEnvironmentsEnvironments } from '@vercel/sdk/models/getprojectsbyidornamecustomenvironmentsop.js';
+import type { z } from 'zod';
+import {
+  VERCEL_ENV_TYPES,
+  VercelSettingsSchema,
+  validateProviderSettings,
+} from '../schemas/index.js';
 import {
   ConfigError,
+  type EnvVars,
+  type PlanChange,
+  type Provider,
+  type ProviderArgs,
+  type ProviderCommandArgs,
+  type PushPlan,
+  type RemoteEnvVar,
   VercelApiError,
-  type VercelPushOptions,
 } from '../types/index.js';
 import { prompt } from '../utils/input.js';
-import { getProjectIdFromFile, getVercelToken } from '../utils/vercel.js';
+import {
+  emitEvent,
+  emitFailedOperation,
+  logOperation,
+} from '../utils/output.js';
+import {
+  compilePattern,
+  matchesAny,
+  splitList,
+  splitTargets,
+} from '../utils/patterns.js';
+import { computePlan, filterChanges } from '../utils/plan.js';
+import {
+  DEFAULT_CONCURRENCY,
+  DEFAULT_RETRY_OPTIONS,
+  getStatusCode,
+  mapWithConcurrency,
+  type RetryOptions,
+  withRetry,
+} from '../utils/retry.js';
+import { type Transaction, withTransaction } from '../utils/transaction.js';
+import { getProjectConfigFromFile, getVercelToken } from '../utils/vercel.js';
 
 const KNOWN_VERCEL_TARGETS = ['production', 'preview', 'development'] as const;
 
+/** Ways a custom environment can match git branches */
+const BRANCH_MATCHER_TYPES = ['equals', 'startsWith', 'endsWith'] as const;
+
+/** Actions of the environments command */
+const ENVIRONMENT_ACTIONS = ['list', 'create', 'delete'] as const;
+
+type EnvironmentAction = (typeof ENVIRONMENT_ACTIONS)[number];
+
+/** Prefix of team ids; personal accounts have user ids instead */
+const TEAM_ID_PREFIX = 'team_';
+
+/** Keys stored as secrets unless configured otherwise */
+const DEFAULT_SECRET_KEYS = ['*KEY*', '*SECRET*', '*TOKEN*', '*PASSWORD*'];
+
+type VercelEnvType = (typeof VERCEL_ENV_TYPES)[number];
+
+/** Protection of each type; stored types are only lowered on request */
+const ENV_TYPE_RANKS: Record<VercelEnvType, number> = {
+  plain: 0,
+  encrypted: 1,
+  sensitive: 2,
+};
+
+type VercelSettings = z.infer<typeof VercelSettingsSchema>;
+
+/** Rules deciding which Vercel type each key is stored as */
+interface TypeRules {
+  /** Type used for keys matching no pattern */
+  defaultType: VercelEnvType;
+  /** Type used for keys matching secretKeys */
+  secretType: 'encrypted' | 'sensitive';
+  secretKeys: string[];
+  /** Keys stored as plain even when they match secretKeys */
+  plainKeys: string[];
+  /** Per-key types, taking precedence over all patterns */
+  keyTypes: Record<string, VercelEnvType>;
+  /** Whether stored types may be lowered, e.g. from encrypted to plain */
+  downgrade: boolean;
+}
+
+/** Team that requests are scoped to, as SDK query parameters */
+interface TeamScope {
+  teamId?: string;
+  slug?: string;
+}
+
+/** Vercel client and the project and team it acts on */
+interface VercelProject {
+  vercel: Vercel;
+  projectId: string;
+  scope: TeamScope;
+  retry: RetryOptions;
+}
+
+/** Resolved state for talking to one Vercel project environment */
+interface VercelContext extends VercelProject {
+  /** Target as given, or the normalized target list */
+  target: string;
+  /** Known targets every pushed variable spans; empty for a custom one */
+  targets: string[];
+  isKnownTarget: boolean;
+  customEnvironmentId?: string;
+  /** Custom environment created by apply before any variable is pushed */
+  environmentToCreate?: CreateCustomEnvironmentRequestBody;
+  /** Git branch the preview variables are scoped to */
+  gitBranch?: string;
+  /** Whether keys missing from the env file are removed */
+  prune: boolean;
+  typeRules: TypeRules;
+  /** Per-variable requests in flight at once */
+  concurrency: number;
+}
+
+/** A listed variable with the known targets its record spans */
+interface VercelEnvRecord extends RemoteEnvVar {
+  targets?: string[];
+}
+
+/**
+ * Wrap an unexpected error from the Vercel SDK
+ * A 403 for a team-scoped request means the token cannot access the team.
+ * @returns ConfigErrors and VercelApiErrors unchanged, anything else as a
+ * VercelApiError
+ */
+function toVercelError(
+  error: unknown,
+  action: string,
+  scope: TeamScope = {}
+): Error {
+  if (error instanceof ConfigError || error instanceof VercelApiError) {
+    return error;
+  }
+
+  const cause = error instanceof Error ? error : undefined;
+  const team = scope.teamId ?? scope.slug;
+  if (team && getStatusCode(error) === 403) {
+    return new VercelApiError(
+      `Vercel token does not have access to team "${team}". Check --team (or orgId in .vercel/project.json) and that the token belongs to a member of the team.`,
+      cause
+    );
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new VercelApiError(`${action}: ${message}`, cause);
+}
+
 /**
- * Deploy environment variables to a Vercel environment
- * @param options Configuration for the deployment
+ * Choose the team to scope requests to
+ * `--team` takes a team id (`team_...`) or slug; otherwise the orgId of
+ * .vercel/project.json is used when it names a team rather than a user.
+ */
+function resolveTeamScope(
+  team: string | undefined,
+  orgId: string | undefined
+): TeamScope {
+  if (team) {
+    return team.startsWith(TEAM_ID_PREFIX) ? { teamId: team } : { slug: team };
+  }
+  return orgId?.startsWith(TEAM_ID_PREFIX) ? { teamId: orgId } : {};
+}
+
+/** Flags and settings a Vercel project is resolved from */
+interface VercelProjectOptions {
+  projectId?: string;
+  token?: string;
+  /** Team id or slug */
+  team?: string;
+  retry: RetryOptions;
+}
+
+/** Flags and settings a Vercel context is resolved from */
+interface VercelContextOptions extends VercelProjectOptions {
+  target: string;
+  gitBranch?: string;
+  /** Create the custom environment named by target when it is missing */
+  createEnvironment?: boolean;
+  branchMatcher?: BranchMatcher;
+}
+
+/**
+ * Resolve project, team and token and create the Vercel client
  * @throws {ConfigError} When configuration is invalid
- * @throws {VercelApiError} When Vercel API calls fail
  */
-export async function pushToVercel(options: VercelPushOptions): Promise<void> {
+async function resolveVercelProject(
+  options: VercelProjectOptions
+): Promise<VercelProject> {
   // Get project ID from command line or from .vercel/project.json
   let projectId = options.projectId;
+  let orgId: string | undefined;
 
   if (!projectId) {
     try {
-      projectId = getProjectIdFromFile();
+      ({ projectId, orgId } = getProjectConfigFromFile());
       console.log(`Using project ID from .vercel/project.json: ${projectId}`);
     } catch (error) {
       throw new ConfigError(
@@ -37,6 +220,11 @@ export async function pushToVercel(options: VercelPushOptions): Promise<void> {
     }
   }
 
+  const scope = resolveTeamScope(options.team, orgId);
+  if (scope.teamId || scope.slug) {
+    console.log(`Using Vercel team ${scope.teamId ?? scope.slug}`);
+  }
+
   // Get Vercel token (from args, env, or prompt)
   const token = await getVercelToken(options.token);
   if (!token) {
@@ -45,166 +233,1205 @@ export async function pushToVercel(options: VercelPushOptions): Promise<void> {
 
   // Initialize Vercel client
   const vercel = new Vercel({ bearerToken: token });
+  return { vercel, projectId, scope, retry: options.retry };
+}
+
+/**
+ * Fetch the custom environments of the project
+ * @throws {VercelApiError} When the request fails
+ */
+async function fetchCustomEnvironments(
+  project: VercelProject
+): Promise<GetProjectsByIdOrNameCustomEnvironmentsEnvironments[]> {
+  const { vercel, projectId, scope, retry } = project;
 
   try {
-    // Use environment variables passed in options
-    const envVars = options.envVars;
-    const environmentTarget = options.target;
-    const normalizedTarget = environmentTarget.toLowerCase();
-    const isKnownTarget = KNOWN_VERCEL_TARGETS.includes(
-      normalizedTarget as (typeof KNOWN_VERCEL_TARGETS)[number]
-    );
-    if (Object.keys(envVars).length === 0) {
-      throw new ConfigError('No environment variables provided');
-    }
+    const response = await withRetry(
+      () =>
+        vercel.environment.getProjectsByIdOrNameCustomEnvironments({
+          idOrName: projectId,
+          ...scope,
+        }),
+      retry,
+      'Fetching custom environments'
+    );
+    return response.environments ?? [];
+  } catch (error) {
+    throw toVercelError(
+      error,
+      'Failed to fetch Vercel custom environments',
+      scope
+    );
+  }
+}
 
-    console.log(`Found ${Object.keys(envVars).length} environment variables`);
+/**
+ * Create a custom environment
+ * @returns The id of the created environment
+ * @throws {VercelApiError} When the request fails
+ */
+async function createCustomEnvironment(
+  project: VercelProject,
+  requestBody: CreateCustomEnvironmentRequestBody
+): Promise<string> {
+  const { vercel, projectId, scope, retry } = project;
 
-    let customEnvironmentId: string | undefined;
-    if (!isKnownTarget) {
-      console.log(
-        `Fetching custom environments for project ${projectId} matching target "${environmentTarget}"...`
-      );
-      const customEnvironments =
-        await vercel.environment.getV9ProjectsIdOrNameCustomEnvironments({
+  try {
+    console.log(`Creating custom environment "${requestBody.slug}"...`);
+    const created = await withRetry(
+      () =>
+        vercel.environment.createCustomEnvironment({
           idOrName: projectId,
-        });
+          ...scope,
+          requestBody,
+        }),
+      retry,
+      `Creating custom environment ${requestBody.slug}`
+    );
+    console.log(
+      `Created custom environment "${requestBody.slug}" with id ${created.id}`
+    );
+    emitEvent({
+      type: 'environment',
+      action: 'create',
+      slug: String(requestBody.slug),
+      id: created.id,
+    });
+    return created.id;
+  } catch (error) {
+    throw toVercelError(
+      error,
+      'Failed to create Vercel custom environment',
+      scope
+    );
+  }
+}
 
-      const match = (customEnvironments.environments || []).find(
-        env => env.slug?.toLowerCase() === normalizedTarget
-      );
-      customEnvironmentId = match?.id;
+/**
+ * Parse a branch matcher written as type:pattern, e.g. startsWith:release/
+ * @throws {ConfigError} When the type is unknown or the pattern is empty
+ */
+function parseBranchMatcher(value: unknown): BranchMatcher | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
 
-      if (!customEnvironmentId) {
-        throw new ConfigError(
-          `Custom environment "${environmentTarget}" not found for project ${projectId}`
-        );
-      }
+  const text = String(value);
+  const separator = text.indexOf(':');
+  const type = text.slice(0, separator);
+  const pattern = text.slice(separator + 1);
+  if (
+    separator < 0 ||
+    !pattern ||
+    !BRANCH_MATCHER_TYPES.includes(type as BranchMatcher['type'])
+  ) {
+    throw new ConfigError(
+      `Invalid --branch-matcher "${text}". Use ${BRANCH_MATCHER_TYPES.join('|')}:<pattern>.`
+    );
+  }
+  return { type: type as BranchMatcher['type'], pattern };
+}
 
-      console.log(
-        `Using custom environment "${environmentTarget}" with id ${customEnvironmentId}`
-      );
-    }
+/**
+ * Resolve project, team, token and target for a Vercel push
+ * A missing custom environment is only looked up here; with
+ * createEnvironment it is created by apply, so that plans have no side
+ * effects.
+ * @throws {ConfigError} When configuration is invalid
+ * @throws {VercelApiError} When custom environments cannot be fetched or
+ * the token cannot access the team
+ */
+async function resolveVercelContext(
+  options: VercelContextOptions
+): Promise<Omit<VercelContext, 'prune' | 'typeRules' | 'concurrency'>> {
+  const { target, gitBranch, createEnvironment, branchMatcher } = options;
+
+  const targets = [
+    ...new Set(splitTargets(target).map(name => name.toLowerCase())),
+  ];
+  const isKnownTarget =
+    targets.length > 0 &&
+    targets.every(name =>
+      KNOWN_VERCEL_TARGETS.includes(
+        name as (typeof KNOWN_VERCEL_TARGETS)[number]
+      )
+    );
+  if (!isKnownTarget && targets.length !== 1) {
+    throw new ConfigError(
+      `Invalid target "${target}". Lists may only combine ${KNOWN_VERCEL_TARGETS.join(', ')}; push custom environments one at a time.`
+    );
+  }
+  if (gitBranch && targets.join() !== 'preview') {
+    throw new ConfigError(
+      `--git-branch only applies to the preview target, not "${target}"`
+    );
+  }
+  if (createEnvironment && isKnownTarget) {
+    throw new ConfigError(
+      `--create-environment only applies to custom environments, not "${target}"`
+    );
+  }
+  if (branchMatcher && !createEnvironment) {
+    throw new ConfigError(
+      '--branch-matcher only applies together with --create-environment'
+    );
+  }
+
+  const project = await resolveVercelProject(options);
+  const context: Omit<VercelContext, 'prune' | 'typeRules' | 'concurrency'> = {
+    ...project,
+    target: isKnownTarget ? targets.join(',') : target,
+    targets: isKnownTarget ? targets : [],
+    isKnownTarget,
+    gitBranch,
+  };
+
+  if (isKnownTarget) {
+    return context;
+  }
 
-    // Get current environment variables from Vercel
+  console.log(
+    `Fetching custom environments for project ${project.projectId} matching target "${target}"...`
+  );
+  const match = (await fetchCustomEnvironments(project)).find(
+    env => env.slug?.toLowerCase() === targets[0]
+  );
+
+  if (match?.id) {
+    console.log(`Using custom environment "${target}" with id ${match.id}`);
+    return { ...context, customEnvironmentId: match.id };
+  }
+
+  if (!createEnvironment) {
+    throw new ConfigError(
+      `Custom environment "${target}" not found for project ${project.projectId}. Pass --create-environment to create it.`
+    );
+  }
+
+  console.log(
+    `Custom environment "${target}" does not exist yet and will be created`
+  );
+  return {
+    ...context,
+    environmentToCreate: {
+      slug: target,
+      ...(branchMatcher && { branchMatcher }),
+    },
+  };
+}
+
+/**
+ * Normalize the target list of a listed record
+ */
+function getRecordTargets(target: unknown): string[] {
+  return Array.isArray(target) ? target.map(t => String(t).toLowerCase()) : [];
+}
+
+/**
+ * Check whether a record spans no targets outside the context's, so it can
+ * be edited or removed without touching other targets
+ */
+function isWithinTargets(
+  context: VercelContext,
+  record: VercelEnvRecord | undefined
+): boolean {
+  return (
+    !record?.targets || record.targets.every(t => context.targets.includes(t))
+  );
+}
+
+/**
+ * Check whether a record spans all of the context's targets
+ */
+function coversTargets(
+  context: VercelContext,
+  record: VercelEnvRecord | undefined
+): boolean {
+  return (
+    !record?.targets || context.targets.every(t => record.targets?.includes(t))
+  );
+}
+
+/**
+ * Describe the context's target, including the git branch it is scoped to
+ */
+function describeTarget(context: VercelContext): string {
+  const { target, gitBranch } = context;
+  return gitBranch ? `${target} (branch ${gitBranch})` : target;
+}
+
+/**
+ * Fetch the variables stored for any of the context's targets
+ * Records of known targets carry the targets they span, which may include
+ * targets outside the context's. With a git branch only that branch's
+ * preview variables are returned; without one, branch-scoped variables are
+ * left out.
+ * @throws {VercelApiError} When Vercel API calls fail
+ */
+async function listVercelEnvs(
+  context: VercelContext
+): Promise<VercelEnvRecord[]> {
+  const { vercel, projectId, scope, targets, gitBranch } = context;
+
+  try {
     console.log(
-      `Fetching current ${environmentTarget} environment variables for project ${projectId}...`
+      `Fetching current ${describeTarget(context)} environment variables for project ${projectId}...`
     );
-    const currentEnvs = (await vercel.projects.filterProjectEnvs({
-      idOrName: projectId,
-    })) as FilterProjectEnvsResponseBody3;
+    const currentEnvs = (await withRetry(
+      () =>
+        vercel.projects.filterProjectEnvs({
+          idOrName: projectId,
+          ...scope,
+          ...(gitBranch && { gitBranch }),
+          decrypt: 'true',
+        }),
+      context.retry,
+      'Fetching environment variables'
+    )) as FilterProjectEnvsResponseBody3;
 
     const targetEnvs = (currentEnvs.envs || []).filter(env => {
-      if (isKnownTarget) {
+      if ((env.gitBranch || undefined) !== gitBranch) {
+        return false;
+      }
+
+      if (context.isKnownTarget) {
         if (!Array.isArray(env.target)) {
           return false;
         }
 
-        return env.target
-          .map(t => String(t).toLowerCase())
-          .includes(normalizedTarget);
+        return getRecordTargets(env.target).some(name =>
+          targets.includes(name)
+        );
       }
 
-      if (
-        customEnvironmentId &&
+      return (
+        !!context.customEnvironmentId &&
         Array.isArray(env.customEnvironmentIds) &&
-        env.customEnvironmentIds.includes(customEnvironmentId)
-      ) {
-        return true;
+        env.customEnvironmentIds.includes(context.customEnvironmentId)
+      );
+    });
+
+    console.log(
+      `Current ${describeTarget(context)} environment variables: ${targetEnvs.length}`
+    );
+
+    // Sensitive values are write-only; they always count as changed
+    return targetEnvs.flatMap(env => {
+      if (!env.key) {
+        return [];
       }
 
-      return false;
+      const readable = env.type === 'plain' || env.decrypted === true;
+      return [
+        {
+          key: env.key,
+          id: env.id,
+          value: readable ? env.value : undefined,
+          type: env.type,
+          ...(context.isKnownTarget && {
+            targets: getRecordTargets(env.target),
+          }),
+        },
+      ];
     });
+  } catch (error) {
+    throw toVercelError(
+      error,
+      'Failed to fetch Vercel environment variables',
+      scope
+    );
+  }
+}
 
-    console.log(
-      `Current ${environmentTarget} environment variables: ${targetEnvs.length}`
+/**
+ * Parse a flag that takes a positive integer
+ * @returns The number, or undefined when the flag is not set
+ * @throws {ConfigError} When the value is not a positive integer
+ */
+function parsePositiveInt(value: unknown, flag: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new ConfigError(
+      `Invalid ${flag} "${value}". Use a positive integer.`
     );
+  }
+  return number;
+}
 
-    // Confirm before proceeding with reset
-    if (!options.skipConfirmation) {
-      console.log(
-        `\nThis will reset ALL ${environmentTarget} environment variables for the project.`
-      );
-      console.log('The following variables will be deployed:');
-      Object.keys(envVars).forEach(key => {
-        console.log(`- ${key}`);
-      });
+/**
+ * Build the retry options from config file settings and CLI flags
+ * @throws {ConfigError} When --max-attempts is not a positive integer
+ */
+function resolveRetryOptions(
+  args: ProviderArgs,
+  settings: VercelSettings
+): RetryOptions {
+  const maxAttempts = parsePositiveInt(
+    args.options['max-attempts'],
+    '--max-attempts'
+  );
+  return {
+    ...DEFAULT_RETRY_OPTIONS,
+    maxAttempts:
+      maxAttempts ?? settings.maxAttempts ?? DEFAULT_RETRY_OPTIONS.maxAttempts,
+  };
+}
+
+/**
+ * Build the type rules from config file settings and CLI flags
+ * Flag patterns and per-key types are added to those from the config file.
+ * @throws {ConfigError} When a type or pattern is invalid
+ */
+function resolveTypeRules(
+  args: ProviderArgs,
+  settings: VercelSettings
+): TypeRules {
+  const secretType = args.options['secret-type'] ?? settings.secretType;
+  if (secretType !== 'encrypted' && secretType !== 'sensitive') {
+    throw new ConfigError(
+      `Invalid --secret-type "${secretType}". Use "encrypted" or "sensitive".`
+    );
+  }
+
+  const defaultType = args.options['default-type'] ?? settings.defaultType;
+  if (!VERCEL_ENV_TYPES.includes(defaultType as VercelEnvType)) {
+    throw new ConfigError(
+      `Invalid --default-type "${defaultType}". Use ${VERCEL_ENV_TYPES.join(', ')}.`
+    );
+  }
 
-      const confirmation = await prompt(
-        '\nProceed with reset and deployment? (yes/no): '
+  const keyTypes = { ...settings.keyTypes };
+  for (const entry of splitList(args.options['key-types'] as string)) {
+    const [key, type] = entry.split('=').map(part => part.trim());
+    if (!key || !VERCEL_ENV_TYPES.includes(type as VercelEnvType)) {
+      throw new ConfigError(
+        `Invalid --key-types entry "${entry}". Use KEY=${VERCEL_ENV_TYPES.join('|')}.`
       );
-      if (confirmation.toLowerCase() !== 'yes') {
-        console.log('Operation cancelled.');
-        return;
-      }
     }
+    keyTypes[key] = type as VercelEnvType;
+  }
 
-    // Delete existing environment variables if any
-    if (targetEnvs.length > 0) {
-      console.log(
-        `Deleting existing ${environmentTarget} environment variables...`
-      );
-      for (const env of targetEnvs) {
-        if (env.id) {
-          await vercel.projects.removeProjectEnv({
-            idOrName: projectId,
-            id: env.id,
-          });
-          console.log(`Deleted ${env.key}`);
+  const rules: TypeRules = {
+    defaultType: defaultType as VercelEnvType,
+    secretType,
+    secretKeys: [
+      ...DEFAULT_SECRET_KEYS,
+      ...settings.secretKeys,
+      ...splitList(args.options['secret-keys'] as string),
+    ],
+    plainKeys: [
+      ...settings.plainKeys,
+      ...splitList(args.options['plain-keys'] as string),
+    ],
+    keyTypes,
+    downgrade: args.options['downgrade-types'] === true,
+  };
+
+  // Surface invalid patterns before anything is fetched
+  [...rules.secretKeys, ...rules.plainKeys].forEach(compilePattern);
+
+  return rules;
+}
+
+/**
+ * Choose the Vercel variable type for a key
+ * Per-key types win over plainKeys, which win over secretKeys; other keys
+ * get the default type.
+ */
+function getEnvType(context: VercelContext, key: string): VercelEnvType {
+  const { typeRules } = context;
+
+  if (typeRules.keyTypes[key]) {
+    return typeRules.keyTypes[key];
+  }
+  if (matchesAny(key, typeRules.plainKeys)) {
+    return 'plain';
+  }
+  if (matchesAny(key, typeRules.secretKeys)) {
+    return typeRules.secretType;
+  }
+  return typeRules.defaultType;
+}
+
+/**
+ * Check whether a type is lower than the stored one, e.g. plain for a
+ * variable stored as encrypted
+ */
+function isDowngrade(type: VercelEnvType, stored: string | undefined): boolean {
+  const storedRank = ENV_TYPE_RANKS[stored as VercelEnvType];
+  return storedRank !== undefined && ENV_TYPE_RANKS[type] < storedRank;
+}
+
+/**
+ * Attach the storage type to every pushed key
+ * A key whose value is unchanged but whose type differs is planned as an
+ * update so that the type is corrected. Stored types are kept rather than
+ * lowered unless --downgrade-types is passed. Vercel does not allow
+ * sensitive variables in development, so those are encrypted.
+ */
+function withEnvTypes(context: VercelContext, plan: PushPlan): PushPlan {
+  const kept: string[] = [];
+  const changes = plan.changes.map((change): PlanChange => {
+    if (change.action === 'remove') {
+      return change;
+    }
+
+    let type = getEnvType(context, change.key);
+    const stored = change.current?.type;
+    if (!context.typeRules.downgrade && isDowngrade(type, stored)) {
+      type = stored as VercelEnvType;
+      kept.push(change.key);
+    }
+    if (type === 'sensitive' && context.targets.includes('development')) {
+      type = 'encrypted';
+    }
+
+    const retype =
+      (change.action === 'unchanged' || change.action === 'unknown') &&
+      stored !== undefined &&
+      stored !== type;
+    return { ...change, action: retype ? 'update' : change.action, type };
+  });
+
+  if (kept.length > 0) {
+    console.warn(
+      `Warning: Keeping the stored type of ${kept.join(', ')}, which is higher than configured. Pass --downgrade-types to lower it.`
+    );
+  }
+
+  return { changes };
+}
+
+/**
+ * Rank how well a record fits the context's targets; records that can be
+ * edited in place rank first, then those already covering every target
+ */
+function rankRecord(context: VercelContext, record: VercelEnvRecord): number {
+  return (
+    (isWithinTargets(context, record) ? 2 : 0) +
+    (coversTargets(context, record) ? 1 : 0)
+  );
+}
+
+/**
+ * Plan the changes that leave each pushed key in one record spanning all
+ * of the context's targets
+ * A key only counts as unchanged when its record covers every target.
+ * Further records of a pushed key on these targets are planned as removals
+ * even without --prune, so that no target ends up with two values.
+ */
+function planVercelChanges(
+  context: VercelContext,
+  envVars: EnvVars,
+  current: VercelEnvRecord[]
+): PushPlan {
+  const ranked = [...current].sort(
+    (a, b) => rankRecord(context, b) - rankRecord(context, a)
+  );
+  const plan = withEnvTypes(
+    context,
+    computePlan(envVars, ranked, { prune: context.prune })
+  );
+
+  const changes = plan.changes.map(
+    (change): PlanChange =>
+      (change.action === 'unchanged' || change.action === 'unknown') &&
+      !coversTargets(context, change.current)
+        ? { ...change, action: 'update' }
+        : change
+  );
+
+  const planned = new Set(changes.map(change => change.current));
+  for (const record of ranked) {
+    if (!planned.has(record) && Object.hasOwn(envVars, record.key)) {
+      changes.push({ key: record.key, action: 'remove', current: record });
+    }
+  }
+
+  return { changes };
+}
+
+/**
+ * Build the create request body for one variable
+ * @param targets Known targets the variable spans, the context's by default
+ * @throws {ConfigError} When the custom environment was not resolved
+ */
+function buildCreateBody(
+  context: VercelContext,
+  change: PlanChange,
+  targets = context.targets
+): CreateProjectEnv11 | CreateProjectEnv12 {
+  const { key } = change;
+  const value = String(change.value);
+  const type = (change.type as VercelEnvType) ?? getEnvType(context, key);
+
+  if (context.isKnownTarget) {
+    return {
+      key,
+      value,
+      target: targets as unknown as OneTarget[],
+      type,
+      ...(context.gitBranch && { gitBranch: context.gitBranch }),
+    } satisfies CreateProjectEnv11;
+  }
+
+  if (!context.customEnvironmentId) {
+    throw new ConfigError(
+      `Custom environment "${context.target}" not found for project ${context.projectId}`
+    );
+  }
+
+  return {
+    key,
+    value,
+    type,
+    customEnvironmentIds: [context.customEnvironmentId],
+  } satisfies CreateProjectEnv12;
+}
+
+/**
+ * Get the record ids of variables created by a batch create, by key
+ */
+function getCreatedIds(
+  response: CreateProjectEnvResponseBody | undefined
+): Map<string, string> {
+  const created = response?.created;
+  const records = Array.isArray(created) ? created : created ? [created] : [];
+
+  const ids = new Map<string, string>();
+  for (const { key, id } of records) {
+    if (key && id) {
+      ids.set(key, id);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Build the revert that writes a remote variable back as it was, on the
+ * targets it spanned
+ * @returns Nothing when the previous value is unknown
+ */
+function getRestoreRevert(
+  context: VercelContext,
+  current: VercelEnvRecord | undefined
+): (() => Promise<void>) | undefined {
+  if (current?.value === undefined) {
+    return undefined;
+  }
+
+  const { vercel, projectId, scope } = context;
+  const change: PlanChange = {
+    key: current.key,
+    action: 'create',
+    value: current.value,
+    type: current.type,
+  };
+  return async () => {
+    await withRetry(
+      () =>
+        vercel.projects.createProjectEnv({
+          idOrName: projectId,
+          ...scope,
+          upsert: 'true',
+          requestBody: [buildCreateBody(context, change, current.targets)],
+        }),
+      context.retry,
+      `Restoring ${current.key}`
+    );
+  };
+}
+
+/**
+ * Build the revert of a variable written by the batch create
+ * Created variables, including those split off a shared record, are
+ * removed again; upserted updates get their previous value back.
+ */
+function getCreateRevert(
+  context: VercelContext,
+  change: PlanChange,
+  createdId: string | undefined
+): (() => Promise<void>) | undefined {
+  if (change.action !== 'create' && isWithinTargets(context, change.current)) {
+    return getRestoreRevert(context, change.current);
+  }
+  if (!createdId) {
+    return undefined;
+  }
+
+  const { vercel, projectId, scope } = context;
+  return async () => {
+    await withRetry(
+      () =>
+        vercel.projects.removeProjectEnv({
+          idOrName: projectId,
+          ...scope,
+          id: createdId,
+        }),
+      context.retry,
+      `Removing ${change.key}`
+    );
+  };
+}
+
+/**
+ * Edit a record and return the revert that edits it back
+ */
+async function editRecord(
+  context: VercelContext,
+  record: VercelEnvRecord,
+  requestBody: EditProjectEnvRequestBody,
+  previous: EditProjectEnvRequestBody | undefined
+): Promise<(() => Promise<void>) | undefined> {
+  const { vercel, projectId, scope, retry } = context;
+  const id = String(record.id);
+  const edit = (body: EditProjectEnvRequestBody) =>
+    withRetry(
+      () =>
+        vercel.projects.editProjectEnv({
+          idOrName: projectId,
+          ...scope,
+          id,
+          requestBody: body,
+        }),
+      retry,
+      `Updating ${record.key}`
+    );
+
+  await edit(requestBody);
+  return (
+    previous &&
+    (async () => {
+      await edit(previous);
+    })
+  );
+}
+
+/**
+ * Take the context's targets off a record that spans other targets too,
+ * leaving the variable in place there
+ */
+async function shrinkRecord(
+  context: VercelContext,
+  transaction: Transaction,
+  record: VercelEnvRecord
+): Promise<void> {
+  const targets = record.targets ?? [];
+  const remaining = targets.filter(t => !context.targets.includes(t));
+  const revert = await editRecord(
+    context,
+    record,
+    { target: remaining as EditProjectEnvTarget[] },
+    { target: targets as EditProjectEnvTarget[] }
+  );
+  transaction.record(record.key, revert);
+}
+
+/**
+ * Remove a record from the context's targets
+ * Records shared with other targets are shrunk rather than deleted.
+ */
+async function removeRecord(
+  context: VercelContext,
+  transaction: Transaction,
+  record: VercelEnvRecord
+): Promise<void> {
+  const { vercel, projectId, scope, retry } = context;
+  const id = record.id;
+  if (!id) {
+    return;
+  }
+
+  if (isWithinTargets(context, record)) {
+    await withRetry(
+      () =>
+        vercel.projects.removeProjectEnv({
+          idOrName: projectId,
+          ...scope,
+          id,
+        }),
+      retry,
+      `Removing ${record.key}`
+    );
+    transaction.record(record.key, getRestoreRevert(context, record));
+  } else {
+    await shrinkRecord(context, transaction, record);
+  }
+  logOperation('remove', record.key);
+}
+
+/**
+ * Apply a plan incrementally: create missing keys, edit changed ones in
+ * place and remove stale ones last. Unchanged keys are not touched. Records
+ * shared with targets outside the context's are never deleted: changed
+ * keys are split off them first, and removals only take the context's
+ * targets off them. Edits and removals run concurrently up to the
+ * context's limit and every call is retried on rate limits and transient
+ * failures. When a call still fails, the changes made so far are reverted.
+ * A custom environment still to be created is created first and kept even
+ * if the push fails.
+ * @throws {VercelApiError} When Vercel API calls fail before any change
+ * @throws {ApplyError} When Vercel API calls fail after changes were made
+ */
+async function applyVercelPlan(
+  context: VercelContext,
+  plan: PushPlan
+): Promise<void> {
+  const { vercel, projectId, scope, retry, concurrency } = context;
+
+  if (context.environmentToCreate) {
+    context.customEnvironmentId = await createCustomEnvironment(
+      context,
+      context.environmentToCreate
+    );
+    context.environmentToCreate = undefined;
+  }
+
+  const toUpdate = filterChanges(plan, 'update').filter(
+    change => change.current?.id
+  );
+  const toSplit = toUpdate.filter(
+    change => !isWithinTargets(context, change.current)
+  );
+  // Updates without a record id cannot be edited and are upserted instead
+  const toEdit = toUpdate.filter(change => !toSplit.includes(change));
+  const toCreate = filterChanges(plan, 'create', 'update').filter(
+    change => !toEdit.includes(change)
+  );
+  const pushedKeys = new Set(
+    filterChanges(plan, 'create', 'update', 'unchanged', 'unknown').map(
+      ({ key }) => key
+    )
+  );
+  const toRemove = filterChanges(plan, 'remove');
+  const toClear = toRemove.filter(({ key }) => pushedKeys.has(key));
+  const toPrune = toRemove.filter(change => !toClear.includes(change));
+
+  await withTransaction(async transaction => {
+    try {
+      // Free the targets first so created and widened records do not
+      // clash with records already on them
+      if (toSplit.length > 0 || toClear.length > 0) {
+        console.log('Splitting shared and duplicate environment variables...');
+        await mapWithConcurrency(toSplit, concurrency, ({ current }) =>
+          shrinkRecord(context, transaction, current as VercelEnvRecord)
+        );
+        await mapWithConcurrency(toClear, concurrency, ({ current }) =>
+          removeRecord(context, transaction, current as VercelEnvRecord)
+        );
+      }
+
+      if (toCreate.length > 0) {
+        console.log('Creating new environment variables...');
+        const response = (await withRetry(
+          () =>
+            vercel.projects.createProjectEnv({
+              idOrName: projectId,
+              ...scope,
+              upsert: 'true',
+              requestBody: toCreate.map(change =>
+                buildCreateBody(context, change)
+              ),
+            }),
+          retry,
+          'Creating environment variables'
+        )) as CreateProjectEnvResponseBody | undefined;
+
+        const createdIds = getCreatedIds(response);
+        const failed = response?.failed ?? [];
+        const failedKeys = failed.map(
+          ({ error }) => error.key ?? error.envVarKey
+        );
+        for (const change of toCreate) {
+          if (!failedKeys.includes(change.key)) {
+            transaction.record(
+              change.key,
+              getCreateRevert(context, change, createdIds.get(change.key))
+            );
+            logOperation(
+              change.action === 'create' ? 'create' : 'update',
+              change.key
+            );
+          }
+        }
+
+        for (const { error } of failed) {
+          emitFailedOperation(
+            'create',
+            error.key ?? error.envVarKey ?? '',
+            error.message
+          );
+        }
+        if (failed.length > 0) {
+          throw new VercelApiError(
+            `Failed to create ${failed.map(({ error }) => `${error.key ?? error.envVarKey}: ${error.message}`).join(', ')}`
+          );
         }
       }
-    }
 
-    // Create new environment variables
-    console.log('Deploying new environment variables...');
-    const requestBody = Object.entries(envVars).map<
-      CreateProjectEnv11 | CreateProjectEnv12
-    >(([key, value]) => {
-      const isSecret =
-        key.includes('KEY') || key.includes('SECRET') || key.includes('TOKEN');
-
-      if (isKnownTarget) {
-        return {
-          key,
-          value: String(value),
-          target: [normalizedTarget] as unknown as OneTarget[],
-          type: isSecret ? 'encrypted' : 'plain',
-        } satisfies CreateProjectEnv11;
+      if (toEdit.length > 0) {
+        console.log('Updating changed environment variables...');
+        await mapWithConcurrency(
+          toEdit,
+          concurrency,
+          async ({ key, value, current, type }) => {
+            const record = current as VercelEnvRecord;
+            const newType = (type as VercelEnvType) ?? getEnvType(context, key);
+            // Records on only some of the targets are widened to all of them
+            const widen = !coversTargets(context, record);
+            const revert = await editRecord(
+              context,
+              record,
+              {
+                value: String(value),
+                type: newType,
+                ...(widen && {
+                  target: context.targets as EditProjectEnvTarget[],
+                }),
+              },
+              record.value === undefined
+                ? undefined
+                : {
+                    value: record.value,
+                    type: (record.type as VercelEnvType) ?? newType,
+                    ...(widen && {
+                      target: record.targets as EditProjectEnvTarget[],
+                    }),
+                  }
+            );
+
+            transaction.record(key, revert);
+            logOperation('update', key);
+          }
+        );
       }
 
-      if (!customEnvironmentId) {
-        throw new ConfigError(
-          `Custom environment "${environmentTarget}" not found for project ${projectId}`
+      // Remove stale variables last so nothing is missing mid-run
+      if (toPrune.length > 0) {
+        console.log('Removing stale environment variables...');
+        await mapWithConcurrency(toPrune, concurrency, ({ current }) =>
+          removeRecord(context, transaction, current as VercelEnvRecord)
         );
       }
+    } catch (error) {
+      throw toVercelError(error, 'Failed to deploy to Vercel', scope);
+    }
+  });
 
-      return {
-        key,
-        value: String(value),
-        type: isSecret ? 'encrypted' : 'plain',
-        customEnvironmentIds: [customEnvironmentId],
-      } satisfies CreateProjectEnv12;
+  console.log(
+    `Environment variables successfully deployed to Vercel ${describeTarget(context)} environment!`
+  );
+  console.log(
+    `Created: ${toCreate.length}, updated: ${toEdit.length}, removed: ${toRemove.length}`
+  );
+}
+
+/**
+ * Remove a custom environment
+ * @throws {VercelApiError} When the request fails
+ */
+async function removeCustomEnvironment(
+  project: VercelProject,
+  environment: GetProjectsByIdOrNameCustomEnvironmentsEnvironments
+): Promise<void> {
+  const { vercel, projectId, scope, retry } = project;
+
+  try {
+    await withRetry(
+      () =>
+        vercel.environment.removeCustomEnvironment({
+          idOrName: projectId,
+          ...scope,
+          environmentSlugOrId: environment.id,
+        }),
+      retry,
+      `Deleting custom environment ${environment.slug}`
+    );
+    console.log(`Deleted custom environment "${environment.slug}"`);
+    emitEvent({
+      type: 'environment',
+      action: 'remove',
+      slug: environment.slug,
+      id: environment.id,
     });
+  } catch (error) {
+    throw toVercelError(
+      error,
+      'Failed to delete Vercel custom environment',
+      scope
+    );
+  }
+}
+
+/**
+ * Print the custom environments of a project and emit them as an event
+ */
+function printCustomEnvironments(
+  projectId: string,
+  environments: GetProjectsByIdOrNameCustomEnvironmentsEnvironments[]
+): void {
+  emitEvent({
+    type: 'environments',
+    environments: environments.map(({ id, slug, branchMatcher }) => ({
+      id,
+      slug,
+      ...(branchMatcher && {
+        branchMatcher: {
+          type: branchMatcher.type,
+          pattern: branchMatcher.pattern,
+        },
+      }),
+    })),
+  });
+
+  if (environments.length === 0) {
+    console.log(`No custom environments in project ${projectId}`);
+    return;
+  }
+
+  console.log(`Custom environments of project ${projectId}:`);
+  for (const { id, slug, branchMatcher } of environments) {
+    const branches = branchMatcher
+      ? `  branches ${branchMatcher.type} "${branchMatcher.pattern}"`
+      : '';
+    console.log(`  ${slug.padEnd(20)}${id}${branches}`);
+  }
+}
+
+/**
+ * List, create or delete the custom environments of the project
+ * @throws {ConfigError} When the action or environment name is invalid
+ * @throws {VercelApiError} When Vercel API calls fail
+ */
+async function runEnvironmentsCommand(
+  args: ProviderCommandArgs
+): Promise<void> {
+  const [action = 'list', slug] = args.positionals;
+  if (!ENVIRONMENT_ACTIONS.includes(action as EnvironmentAction)) {
+    throw new ConfigError(
+      `Unknown environments action "${action}". Use ${ENVIRONMENT_ACTIONS.join(', ')}.`
+    );
+  }
+  if (action !== 'list' && !slug) {
+    throw new ConfigError(
+      `Name the custom environment to ${action}, e.g. "dotenv-push vercel environments ${action} staging".`
+    );
+  }
+  const branchMatcher = parseBranchMatcher(args.options['branch-matcher']);
+  if (branchMatcher && action !== 'create') {
+    throw new ConfigError(
+      '--branch-matcher only applies when creating an environment'
+    );
+  }
+
+  const settings = validateProviderSettings(
+    VercelSettingsSchema,
+    args.settings,
+    'vercel'
+  );
+  const project = await resolveVercelProject({
+    projectId: args.options.project as string | undefined,
+    token: args.options.token as string | undefined,
+    team: args.options.team as string | undefined,
+    retry: resolveRetryOptions(args, settings),
+  });
 
-    const _addResponse = await vercel.projects.createProjectEnv({
-      idOrName: projectId,
-      upsert: 'true',
-      requestBody,
+  if (action === 'create') {
+    await createCustomEnvironment(project, {
+      slug,
+      ...(branchMatcher && { branchMatcher }),
     });
+    return;
+  }
 
-    console.log(
-      `Environment variables successfully deployed to Vercel ${environmentTarget} environment!`
+  const environments = await fetchCustomEnvironments(project);
+  if (action === 'list') {
+    printCustomEnvironments(project.projectId, environments);
+    return;
+  }
+
+  const match = environments.find(
+    env => env.slug.toLowerCase() === slug.toLowerCase()
+  );
+  if (!match) {
+    throw new ConfigError(
+      `Custom environment "${slug}" not found for project ${project.projectId}`
     );
-    console.log(`Total variables deployed: ${Object.keys(envVars).length}`);
-  } catch (error) {
-    if (error instanceof ConfigError) {
-      throw error;
-    }
+  }
 
-    const message = error instanceof Error ? error.message : String(error);
-    throw new VercelApiError(
-      `Failed to deploy to Vercel: ${message}`,
-      error instanceof Error ? error : undefined
+  if (!args.skipConfirmation) {
+    const confirmation = await prompt(
+      `Delete custom environment "${match.slug}" and its variables? (yes/no): `
     );
+    if (confirmation.toLowerCase() !== 'yes') {
+      console.log('Operation cancelled.');
+      return;
+    }
   }
+  await removeCustomEnvironment(project, match);
 }
+
+/**
+ * Vercel provider
+ * Syncs the target environment incrementally, comparing against decrypted
+ * values. Keys missing from the env file are only removed with --prune.
+ */
+export const vercelProvider: Provider<VercelContext> = {
+  name: 'vercel',
+  description: 'Push to Vercel project',
+  options: {
+    project: {
+      type: 'string',
+      short: 'p',
+      placeholder: '<id>',
+      description: 'Project ID (optional, uses .vercel/project.json)',
+    },
+    token: {
+      type: 'string',
+      short: 't',
+      placeholder: '<token>',
+      description: 'Vercel API token (or use VERCEL_TOKEN)',
+    },
+    team: {
+      type: 'string',
+      placeholder: '<team>',
+      description:
+        'Team id or slug (defaults to orgId of .vercel/project.json)',
+    },
+    'git-branch': {
+      type: 'string',
+      placeholder: '<name>',
+      description: 'Git branch preview variables are scoped to',
+    },
+    'create-environment': {
+      type: 'boolean',
+      description: 'Create the custom environment --target if it is missing',
+    },
+    'branch-matcher': {
+      type: 'string',
+      placeholder: '<match>',
+      description:
+        'Branches of a created environment, e.g. startsWith:release/',
+    },
+    prune: {
+      type: 'boolean',
+      description: 'Remove Vercel variables that are not in the env file',
+    },
+    'default-type': {
+      type: 'string',
+      placeholder: '<type>',
+      description:
+        'Type of keys matching no pattern: "encrypted" (default), "sensitive" or "plain"',
+    },
+    'secret-type': {
+      type: 'string',
+      placeholder: '<type>',
+      description: 'Type of secret keys: "encrypted" (default) or "sensitive"',
+    },
+    'secret-keys': {
+      type: 'string',
+      placeholder: '<list>',
+      description: 'Extra secret key patterns (globs or /regex/)',
+    },
+    'plain-keys': {
+      type: 'string',
+      placeholder: '<list>',
+      description: 'Key patterns stored as plain even if they look secret',
+    },
+    'key-types': {
+      type: 'string',
+      placeholder: '<list>',
+      description: 'Per-key types, e.g. DATABASE_URL=sensitive',
+    },
+    'downgrade-types': {
+      type: 'boolean',
+      description: 'Lower stored types, e.g. from encrypted to plain',
+    },
+    'max-attempts': {
+      type: 'string',
+      placeholder: '<n>',
+      description: `Attempts per API call when rate limited (default ${DEFAULT_RETRY_OPTIONS.maxAttempts})`,
+    },
+    concurrency: {
+      type: 'string',
+      placeholder: '<n>',
+      description: `Variables updated or removed in parallel (default ${DEFAULT_CONCURRENCY})`,
+    },
+  },
+  examples: [
+    'dotenv-push vercel',
+    'dotenv-push vercel --project abc123 --token xyz',
+    'dotenv-push vercel --env .env.staging --yes --prune',
+    'dotenv-push vercel --target preview --git-branch feature-x',
+    'dotenv-push vercel --target staging --create-environment',
+    'dotenv-push vercel environments create qa --branch-matcher equals:qa',
+    'dotenv-push vercel --secret-type sensitive --secret-keys "*_URL"',
+    'cat .env | dotenv-push vercel --stdin',
+    'dotenvx decrypt --stdout | dotenv-push vercel --stdin',
+  ],
+  environment: {
+    VERCEL_TOKEN: 'Vercel API token',
+  },
+  defaultTarget: 'production',
+  commands: {
+    environments: {
+      usage: '[list|create|delete] [<name>]',
+      description: 'Manage the custom environments of the project',
+      run: runEnvironmentsCommand,
+    },
+  },
+
+  async resolve(args) {
+    const settings = validateProviderSettings(
+      VercelSettingsSchema,
+      args.settings,
+      'vercel'
+    );
+    const typeRules = resolveTypeRules(args, settings);
+    const concurrency = parsePositiveInt(
+      args.options.concurrency,
+      '--concurrency'
+    );
+
+    const context = await resolveVercelContext({
+      projectId: args.options.project as string | undefined,
+      token: args.options.token as string | undefined,
+      team: args.options.team as string | undefined,
+      target: args.target ?? 'production',
+      gitBranch: args.options['git-branch'] as string | undefined,
+      createEnvironment: args.options['create-environment'] === true,
+      branchMatcher: parseBranchMatcher(args.options['branch-matcher']),
+      retry: resolveRetryOptions(args, settings),
+    });
+    return {
+      ...context,
+      prune: args.options.prune === true,
+      typeRules,
+      concurrency: concurrency ?? settings.concurrency ?? DEFAULT_CONCURRENCY,
+    };
+  },
+
+  identify({ projectId, scope, target, gitBranch }) {
+    const team = scope.teamId ?? scope.slug;
+    const project = team ? `${team}/${projectId}` : projectId;
+    return gitBranch
+      ? `${project}:${target}@${gitBranch}`
+      : `${project}:${target}`;
+  },
+
+  list(context) {
+    return listVercelEnvs(context);
+  },
+
+  plan(context, envVars, current) {
+    return planVercelChanges(context, envVars, current);
+  },
+
+  apply(context, plan) {
+    return applyVercelPlan(context, plan);
+  },
+};
@@ -3,19 +3,128 @@
  */
 
 import { z } from 'zod';
-import { ConfigError, SUPPORTED_PROVIDERS } from '../types/index.js';
+import {
+  COMMANDS,
+  ConfigError,
+  ENV_VALUE_TYPES,
+  OUTPUT_FORMATS,
+} from '../types/index.js';
+
+/** Schema for key filtering and renaming */
+export const KeyTransformSchema = z
+  .object({
+    include: z.array(z.string().min(1)).default([]),
+    exclude: z.array(z.string().min(1)).default([]),
+    stripPrefix: z.string().min(1).optional(),
+    addPrefix: z.string().min(1).optional(),
+    rename: z.record(z.string().min(1)).default({}),
+  })
+  .strict();
+
+/** Schema for the rules of one key in an env schema */
+export const EnvKeyRuleSchema = z
+  .object({
+    type: z.enum(ENV_VALUE_TYPES).optional(),
+    required: z.boolean().optional(),
+    requiredIn: z.array(z.string().min(1)).optional(),
+    pattern: z
+      .string()
+      .refine(isValidRegExp, 'Invalid regular expression')
+      .optional(),
+    enum: z.array(z.string()).min(1).optional(),
+    description: z.string().optional(),
+  })
+  .strict();
+
+/** Schema for env schema files (rules by key) */
+export const EnvSchemaSchema = z.record(EnvKeyRuleSchema);
 
 /** Schema for CLI arguments */
 export const CliArgsSchema = z.object({
-  provider: z.enum(SUPPORTED_PROVIDERS),
-  project: z.string().optional(),
-  token: z.string().optional(),
-  env: z.string().default('.env.production'),
+  command: z.enum(COMMANDS).default('push'),
+  provider: z.string().min(1).optional(),
+  to: z.array(z.string().min(1)).default([]),
+  env: z
+    .preprocess(
+      value => (typeof value === 'string' ? [value] : value),
+      z.array(z.string().min(1))
+    )
+    .default(['.env.production']),
   target: z.string().default('production'),
+  stdin: z.boolean().default(false),
+  out: z.string().optional(),
+  force: z.boolean().default(false),
+  dryRun: z.boolean().default(false),
+  overwriteUnknown: z.boolean().default(false),
+  format: z.enum(OUTPUT_FORMATS).default('text'),
+  verbose: z.boolean().default(false),
+  expand: z.boolean().default(false),
+  expandEnv: z.boolean().default(false),
+  transform: KeyTransformSchema.default({}),
+  schema: EnvSchemaSchema.optional(),
+  snapshotDir: z.string().min(1).optional(),
+  snapshot: z.string().min(1).optional(),
   yes: z.boolean().default(false),
   help: z.boolean().default(false),
 });
 
+/** Schema for a named deployment in the config file */
+export const DeploymentConfigSchema = z
+  .object({
+    provider: z.string().min(1),
+    target: z.string().optional(),
+    env: z.string().optional(),
+  })
+  .catchall(z.union([z.string(), z.boolean()]));
+
+/** Schema for dotenv-push.config.json / .js */
+export const ConfigFileSchema = z.object({
+  plugins: z.array(z.string()).optional(),
+  deployments: z.record(DeploymentConfigSchema).default({}),
+  groups: z.record(z.array(z.string().min(1))).optional(),
+  providers: z.record(z.record(z.unknown())).optional(),
+  transform: KeyTransformSchema.optional(),
+  schema: z.union([z.string().min(1), EnvSchemaSchema]).optional(),
+  snapshotDir: z.string().min(1).optional(),
+});
+
+/** Vercel variable types */
+export const VERCEL_ENV_TYPES = ['plain', 'encrypted', 'sensitive'] as const;
+
+/** Schema for the `providers.vercel` section of the config file */
+export const VercelSettingsSchema = z
+  .object({
+    defaultType: z.enum(VERCEL_ENV_TYPES).default('encrypted'),
+    secretType: z.enum(['encrypted', 'sensitive']).default('encrypted'),
+    secretKeys: z.array(z.string().min(1)).default([]),
+    plainKeys: z.array(z.string().min(1)).default([]),
+    keyTypes: z.record(z.enum(VERCEL_ENV_TYPES)).default({}),
+    maxAttempts: z.number().int().min(1).optional(),
+    concurrency: z.number().int().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * Check whether a string compiles as a regular expression
+ */
+function isValidRegExp(source: string): boolean {
+  try {
+    new RegExp(source);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Format Zod issues as indented lines
+ */
+function formatIssues(error: z.ZodError): string {
+  return error.errors
+    .map(e => `${e.path.join('.')}: ${e.message}`)
+    .join('\n  ');
+}
+
 /**
  * Validate CLI arguments with detailed error messages
  */
@@ -24,11 +133,71 @@ export function validateCliArgs(args: unknown): z.infer<typeof CliArgsSchema> {
     return CliArgsSchema.parse(args);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const messages = error.errors.map(
-        e => `${e.path.join('.')}: ${e.message}`
+      throw new ConfigError(`Invalid CLI arguments:\n  ${formatIssues(error)}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate provider settings from the config file
+ * @param schema Schema of the provider's settings
+ * @param data Provider section of the config file
+ * @param provider Provider name, used in error messages
+ */
+export function validateProviderSettings<T extends z.ZodTypeAny>(
+  schema: T,
+  data: unknown,
+  provider: string
+): z.infer<T> {
+  try {
+    return schema.parse(data ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ConfigError(
+        `Invalid ${provider} settings in config file:\n  ${formatIssues(error)}`
       );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate a config file with detailed error messages
+ * @param data Parsed config file content
+ * @param path Config file path, used in error messages
+ */
+export function validateConfig(
+  data: unknown,
+  path: string
+): z.infer<typeof ConfigFileSchema> {
+  try {
+    return ConfigFileSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new ConfigError(
+        `Invalid config file ${path}:\n  ${formatIssues(error)}`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validate an env schema file with detailed error messages
+ * @param data Parsed schema file content
+ * @param path Schema file path, used in error messages
+ */
+export function validateEnvSchema(
+  data: unknown,
+  path: string
+): z.infer<typeof EnvSchemaSchema> {
+  try {
+    return EnvSchemaSchema.parse(data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
       throw new ConfigError(
-        `Invalid CLI arguments:\n  ${messages.join('\n  ')}`
+        `Invalid env schema ${path}:\n  ${formatIssues(error)}`
       );
     }
     throw error;
@@ -0,0 +1,123 @@
+/**
+ * Local stand-in for the environment variable endpoints of a Convex
+ * deployment and the preview lookup of the management API, for testing the
+ * Convex client end to end
+ */
+
+import { serve } from 'bun';
+
+/** Request received by the mock deployment */
+interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization: string | null;
+  body?: unknown;
+}
+
+/** Options of the mock deployment */
+interface MockConvexOptions {
+  /** Variables stored initially */
+  env?: Record<string, string>;
+  /** Accepted Authorization header; anything else gets a 401 */
+  authorization?: string;
+  /**
+   * Preview names with a preview deployment; each is served by this server
+   * and accepts the admin key `admin-<name>`
+   */
+  previews?: string[];
+  /** Responses returned before the real ones, e.g. to simulate failures */
+  failures?: { status: number; headers?: Record<string, string> }[];
+}
+
+/** Running mock deployment */
+export interface MockConvexServer {
+  url: string;
+  /** Variables currently stored */
+  env: Record<string, string>;
+  requests: RecordedRequest[];
+  stop(): void;
+}
+
+/**
+ * Start a mock deployment on a free local port
+ */
+export function startMockConvexServer(
+  options: MockConvexOptions = {}
+): MockConvexServer {
+  const env = { ...options.env };
+  const requests: RecordedRequest[] = [];
+  const failures = [...(options.failures ?? [])];
+
+  const server = serve({
+    port: 0,
+    async fetch(req) {
+      const path = new URL(req.url).pathname;
+      const authorization = req.headers.get('authorization');
+      const body =
+        req.method === 'POST' ? await req.json().catch(() => null) : undefined;
+      requests.push({ method: req.method, path, authorization, body });
+
+      const failure = failures.shift();
+      if (failure) {
+        return new Response('failure', failure);
+      }
+      const previews = options.previews ?? [];
+      if (
+        options.authorization &&
+        authorization !== options.authorization &&
+        !previews.some(name => authorization === `Convex admin-${name}`)
+      ) {
+        return new Response('BadDeployKey', { status: 401 });
+      }
+
+      if (
+        req.method === 'POST' &&
+        path === '/api/deployment/authorize_preview'
+      ) {
+        const { previewName } = (body ?? {}) as { previewName?: string };
+        if (!previewName || !previews.includes(previewName)) {
+          return new Response('PreviewNotFound', { status: 404 });
+        }
+        return Response.json({
+          deploymentName: `preview-${previewName}`,
+          url: new URL(req.url).origin,
+          adminKey: `admin-${previewName}`,
+        });
+      }
+
+      if (
+        req.method === 'GET' &&
+        path === '/api/v1/list_environment_variables'
+      ) {
+        return Response.json({ environmentVariables: env });
+      }
+
+      if (
+        req.method === 'POST' &&
+        path === '/api/v1/update_environment_variables'
+      ) {
+        const changes = (body as { changes?: unknown })?.changes;
+        if (!Array.isArray(changes)) {
+          return new Response('Invalid changes', { status: 400 });
+        }
+        for (const { name, value } of changes) {
+          if (value === undefined || value === null) {
+            delete env[name];
+          } else {
+            env[name] = value;
+          }
+        }
+        return Response.json({});
+      }
+
+      return new Response('Not found', { status: 404 });
+    },
+  });
+
+  return {
+    url: `http://localhost:${server.port}`,
+    env,
+    requests,
+    stop: () => server.stop(true),
+  };
+}
@@ -3,22 +3,53 @@
  */
 
 import { type Mock, mock } from 'bun:test';
-import type { EnvVars } from '../types/index.js';
+import type { CreateCustomEnvironmentRequest } from '@vercel/sdk/models/createcustomenvironmentop.js';
+import type { CreateProjectEnvRequest } from '@vercel/sdk/models/createprojectenvop.js';
+import type { EditProjectEnvRequest } from '@vercel/sdk/models/editprojectenvop.js';
+import type { FilterProjectEnvsRequest } from '@vercel/sdk/models/filterprojectenvsop.js';
+import type { GetProjectsByIdOrNameCustomEnvironmentsRequest } from '@vercel/sdk/models/getprojectsbyidornamecustomenvironmentsop.js';
+import type { RemoveCustomEnvironmentRequest } from '@vercel/sdk/models/removecustomenvironmentop.js';
+import type { RemoveProjectEnvRequest } from '@vercel/sdk/models/removeprojectenvop.js';
+import type {
+  Destination,
+  EnvVars,
+  Provider,
+  RemoteEnvVar,
+} from '../types/index.js';
+import { computePlan } from '../utils/plan.js';
+
+/** Mock of a Vercel SDK method taking the given request */
+type MockVercelMethod<TRequest> = Mock<(request: TRequest) => Promise<unknown>>;
 
 /** Mock implementation of Vercel SDK project methods */
-interface MockVercelProjects {
-  filterProjectEnvs: (args: unknown) => Promise<unknown>;
-  removeProjectEnv: (args: unknown) => Promise<unknown>;
-  createProjectEnv: (args: unknown) => Promise<unknown>;
+export interface MockVercelProjects {
+  filterProjectEnvs: MockVercelMethod<FilterProjectEnvsRequest>;
+  removeProjectEnv: MockVercelMethod<RemoveProjectEnvRequest>;
+  createProjectEnv: MockVercelMethod<CreateProjectEnvRequest>;
+  editProjectEnv: MockVercelMethod<EditProjectEnvRequest>;
+}
+
+/** Mock implementation of Vercel SDK environment methods */
+export interface MockVercelEnvironment {
+  getProjectsByIdOrNameCustomEnvironments: MockVercelMethod<GetProjectsByIdOrNameCustomEnvironmentsRequest>;
+  createCustomEnvironment: MockVercelMethod<CreateCustomEnvironmentRequest>;
+  removeCustomEnvironment: MockVercelMethod<RemoveCustomEnvironmentRequest>;
+}
+
+/** Mock Vercel SDK client */
+export interface MockVercelClient {
+  projects: MockVercelProjects;
+  environment: MockVercelEnvironment;
 }
 
 /** Mock Vercel SDK constructor */
 interface MockVercelConstructor {
-  new (config: {
-    bearerToken: string;
-  }): {
-    projects: MockVercelProjects;
-  };
+  new (config: { bearerToken: string }): MockVercelClient;
+  /**
+   * Called with every new client, to set up clients that the code under
+   * test creates internally
+   */
+  onCreate?: (client: MockVercelClient) => void;
 }
 
 /** Mock stdin for testing prompts */
@@ -38,9 +69,18 @@ export function createMockVercel(): MockVercelConstructor {
       filterProjectEnvs: mock(async (_args?: unknown) => undefined),
       removeProjectEnv: mock(async (_args?: unknown) => undefined),
       createProjectEnv: mock(async (_args?: unknown) => undefined),
+      editProjectEnv: mock(async (_args?: unknown) => undefined),
     };
+    environment = {
+      getProjectsByIdOrNameCustomEnvironments: mock(
+        async (_args?: unknown) => undefined
+      ),
+      createCustomEnvironment: mock(async (_args?: unknown) => undefined),
+      removeCustomEnvironment: mock(async (_args?: unknown) => undefined),
+    };
+    static onCreate?: (client: MockVercelClient) => void;
     constructor(_config: { bearerToken: string }) {
-      /* noop: constructor present to match SDK shape */
+      VercelMock.onCreate?.(this as unknown as MockVercelClient);
     }
   }
   return VercelMock as unknown as MockVercelConstructor;
@@ -65,6 +105,81 @@ export function createMockStdin(): MockStdin {
   };
 }
 
+/**
+ * Create an in-memory replacement for the node:fs functions used to store
+ * files, for use with mock.module
+ */
+export function createMemoryFs() {
+  const files = new Map<string, string>();
+  const dirs = new Set<string>();
+
+  const fs = {
+    existsSync: mock(
+      (path: string) => files.has(String(path)) || dirs.has(String(path))
+    ),
+    mkdirSync: mock((path: string) => {
+      dirs.add(String(path));
+    }),
+    readdirSync: mock((path: string) =>
+      [...files.keys()]
+        .filter(file => file.startsWith(`${path}/`))
+        .map(file => file.slice(String(path).length + 1))
+    ),
+    readFileSync: mock((path: string) => {
+      const content = files.get(String(path));
+      if (content === undefined) {
+        throw new Error(`ENOENT: no such file, open '${path}'`);
+      }
+      return content;
+    }),
+    writeFileSync: mock((path: string, content: string) => {
+      files.set(String(path), String(content));
+    }),
+  };
+
+  return { files, fs };
+}
+
+/** Options for an in-memory destination */
+interface MemoryDestinationOptions {
+  target?: string;
+  /** Whether remote-only keys are planned as removals (default true) */
+  prune?: boolean;
+  /** Identity of the resolved destination; the target when unset */
+  identity?: string;
+  apply?: Provider<null>['apply'];
+}
+
+/**
+ * Create a destination backed by an in-memory provider named "memory"
+ * @param current Remote state returned by list
+ * @returns The destination and its mocked apply
+ */
+export function createMemoryDestination(
+  name: string,
+  current: RemoteEnvVar[],
+  options: MemoryDestinationOptions = {}
+) {
+  const { target, prune = true, identity } = options;
+  const apply = mock(options.apply ?? (async () => undefined));
+  const provider: Provider<null> = {
+    name: 'memory',
+    description: 'Push to memory',
+    identify: identity === undefined ? undefined : () => identity,
+    resolve: async () => null,
+    list: async () => current,
+    plan: (_context, envVars, remote) =>
+      computePlan(envVars, remote, { prune }),
+    apply,
+  };
+  const destination: Destination = {
+    name,
+    provider,
+    args: { target, options: {} },
+  };
+  return { destination, apply };
+}
+
 /**
  * Mock process.stdout.write for testing output
  */
@@ -0,0 +1,25 @@
+/**
+ * Minimal provider module used to test loading providers from a path
+ */
+
+import type { Provider } from '../types/index.js';
+import { computePlan } from '../utils/plan.js';
+
+const testProvider: Provider<null> = {
+  name: 'test-provider',
+  description: 'Push to nowhere',
+  async resolve() {
+    return null;
+  },
+  async list() {
+    return [];
+  },
+  plan(_context, envVars, current) {
+    return computePlan(envVars, current);
+  },
+  async apply() {
+    /* noop: nothing to apply */
+  },
+};
+
+export default testProvider;
@@ -2,21 +2,181 @@
  * Core type definitions for dotenv-push CLI tool
  */
 
-/** Supported providers for environment variable deployment */
-export const SUPPORTED_PROVIDERS = ['vercel', 'convex'] as const;
-export type Provider = (typeof SUPPORTED_PROVIDERS)[number];
+/** Provider name as registered in the provider registry */
+export type ProviderName = string;
+
+/** CLI commands; `push` is implied when the first positional is a provider */
+export const COMMANDS = ['push', 'plan', 'pull', 'status', 'rollback'] as const;
+export type Command = (typeof COMMANDS)[number];
+
+/**
+ * Output formats: human-readable text, a single JSON document or a stream
+ * of newline-delimited JSON events
+ */
+export const OUTPUT_FORMATS = ['text', 'json', 'ndjson'] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** Operation performed on a single remote variable */
+export type OperationAction = 'create' | 'update' | 'remove' | 'revert';
+
+/** Differences between local variables and the remote state */
+export interface StatusReport {
+  destination: string;
+  provider: string;
+  target?: string;
+  inSync: boolean;
+  /** Local keys that are not stored remotely */
+  missing: string[];
+  /** Remote keys that are not in the local variables */
+  extra: string[];
+  /** Keys whose remote value differs from the local one */
+  differing: string[];
+  /** Keys whose remote value cannot be read, e.g. Vercel sensitive vars */
+  unknown: string[];
+}
+
+/** Provider-managed environment, such as a Vercel custom environment */
+export interface CustomEnvironmentInfo {
+  id: string;
+  slug: string;
+  /** Git branches deployed to the environment */
+  branchMatcher?: { type: string; pattern: string };
+}
+
+/**
+ * Structured event emitted in the json and ndjson output formats
+ * Events never contain variable values.
+ */
+export type OutputEvent =
+  | { type: 'env'; count: number; keys: string[] }
+  | {
+      type: 'plan';
+      destination: string;
+      provider: string;
+      target?: string;
+      changes: { key: string; action: PlanAction; type?: string }[];
+    }
+  | { type: 'snapshot'; destination: string; id: string }
+  | {
+      type: 'operation';
+      /** Destination being applied, when known */
+      destination?: string;
+      key: string;
+      action: OperationAction;
+      status: 'ok' | 'failed';
+      error?: string;
+    }
+  | {
+      type: 'result';
+      destination: string;
+      status: 'applied' | 'unchanged' | 'failed';
+      error?: { code: string; message: string };
+    }
+  | ({ type: 'status' } & StatusReport)
+  | {
+      type: 'pull';
+      destination: string;
+      out: string;
+      count: number;
+      /** Keys whose values cannot be read and were not written */
+      skipped: string[];
+    }
+  | {
+      type: 'environments';
+      environments: CustomEnvironmentInfo[];
+    }
+  | ({ type: 'environment'; action: 'create' | 'remove' } & Pick<
+      CustomEnvironmentInfo,
+      'id' | 'slug'
+    >)
+  | {
+      type: 'error';
+      code: string;
+      message: string;
+      /** Keys reverted after a failed apply */
+      reverted?: string[];
+      /** Keys that could not be reverted after a failed apply */
+      unreverted?: string[];
+    };
 
 /** CLI command line arguments interface */
 export interface CliArgs {
-  provider: Provider;
-  project?: string;
-  token?: string;
-  env: string;
-  target: VercelEnvironmentTarget;
+  command: Command;
+  /** Provider, deployment or group name given as positional */
+  provider?: string;
+  /** Additional destinations from --to */
+  to: string[];
+  /** Env files in order of increasing precedence */
+  env: string[];
+  target: string;
+  /** Read variables from stdin, layered over any --env files */
+  stdin: boolean;
+  /** File written by pull */
+  out?: string;
+  force: boolean;
+  dryRun: boolean;
+  format: OutputFormat;
+  /** Print details such as the source file of every variable */
+  verbose: boolean;
+  /** Push keys whose remote value cannot be read */
+  overwriteUnknown: boolean;
+  /** Expand ${VAR} references between variables */
+  expand: boolean;
+  /** Also expand references to the process environment */
+  expandEnv: boolean;
+  /** Key filtering and renaming applied before pushing */
+  transform: KeyTransform;
+  /** Rules the variables must satisfy before pushing */
+  schema?: EnvSchema;
+  /** Directory snapshots are saved to before pushing, when configured */
+  snapshotDir?: string;
+  /** Snapshot restored by rollback */
+  snapshot?: string;
   yes: boolean;
   help: boolean;
 }
 
+/** Value types an env schema can require */
+export const ENV_VALUE_TYPES = [
+  'string',
+  'number',
+  'integer',
+  'boolean',
+  'url',
+  'json',
+] as const;
+
+export type EnvValueType = (typeof ENV_VALUE_TYPES)[number];
+
+/** Rules for a single key in an env schema */
+export interface EnvKeyRule {
+  type?: EnvValueType;
+  /** Whether the key must be present for every target */
+  required?: boolean;
+  /** Targets the key must be present for */
+  requiredIn?: string[];
+  /** Regular expression the whole value must match */
+  pattern?: string;
+  /** Allowed values */
+  enum?: string[];
+  description?: string;
+}
+
+/** Env schema: rules by key */
+export type EnvSchema = Record<string, EnvKeyRule>;
+
+/** Key filtering and renaming applied to loaded variables */
+export interface KeyTransform {
+  /** Key patterns to keep (all keys when empty) */
+  include: string[];
+  /** Key patterns to drop, checked after include */
+  exclude: string[];
+  stripPrefix?: string;
+  addPrefix?: string;
+  /** Explicit new names by original key, instead of the prefix rules */
+  rename: Record<string, string>;
+}
+
 /** Supported Vercel environment targets */
 export type VercelEnvironmentTarget =
   | 'production'
@@ -24,22 +184,164 @@ export type VercelEnvironmentTarget =
   | 'development'
   | string;
 
-/** Options for pushing to Vercel */
-export interface VercelPushOptions {
-  projectId?: string;
-  token?: string;
-  envVars: EnvVars;
-  target: VercelEnvironmentTarget;
-  skipConfirmation: boolean;
+/** Values of provider-specific CLI flags, keyed by long flag name */
+export type ProviderOptionValues = Record<string, string | boolean | undefined>;
+
+/** Arguments handed to a provider when resolving its context */
+export interface ProviderArgs {
+  /** Environment target, when given (provider-specific meaning and default) */
+  target?: string;
+  /** Values of the flags declared in the provider's `options` */
+  options: ProviderOptionValues;
+  /** Provider section of the config file (validated by the provider) */
+  settings?: Record<string, unknown>;
 }
 
-/** Options for pushing to Convex */
-export interface ConvexPushOptions {
-  deploymentName?: string;
-  envVars: EnvVars;
+/** CLI flag declared by a provider */
+export interface ProviderOption {
+  type: 'string' | 'boolean';
+  short?: string;
+  /** Placeholder shown in help output, e.g. "<id>" */
+  placeholder?: string;
+  /** Whether the flag can be given more than once */
+  multiple?: boolean;
+  description: string;
+}
+
+/** Arguments handed to a provider command */
+export interface ProviderCommandArgs extends ProviderArgs {
+  /** Positional arguments after the command name */
+  positionals: string[];
   skipConfirmation: boolean;
 }
 
+/**
+ * Provider-specific command, run as `dotenv-push <provider> <name> ...`
+ */
+export interface ProviderCommand {
+  /** Arguments after the command name, shown in help output */
+  usage: string;
+  description: string;
+  run(args: ProviderCommandArgs): Promise<void>;
+}
+
+/** Environment variable as currently stored by a provider */
+export interface RemoteEnvVar {
+  key: string;
+  /** Current value, when the provider exposes it */
+  value?: string;
+  /** Provider-specific identifier */
+  id?: string;
+  /** Provider-specific storage type (e.g. Vercel's plain or sensitive) */
+  type?: string;
+}
+
+/** Provider and target a command operates on */
+export interface Destination {
+  /** Label shown in output, e.g. "vercel:production" or a deployment name */
+  name: string;
+  provider: Provider;
+  args: ProviderArgs;
+}
+
+/**
+ * Kind of change a plan makes to a single key
+ * `unknown` marks keys whose remote value cannot be read, so it is not
+ * known whether they differ; they are only pushed when asked to.
+ */
+export type PlanAction =
+  | 'create'
+  | 'update'
+  | 'remove'
+  | 'unchanged'
+  | 'unknown';
+
+/** Planned change for a single key */
+export interface PlanChange {
+  key: string;
+  action: PlanAction;
+  /** Value to push (absent for removals) */
+  value?: string;
+  /** Remote variable being replaced or removed */
+  current?: RemoteEnvVar;
+  /** Storage type the value is pushed as, when the provider has types */
+  type?: string;
+}
+
+/** Set of changes a provider will apply */
+export interface PushPlan {
+  changes: PlanChange[];
+}
+
+/**
+ * Provider implementation registered in the provider registry
+ * The context is whatever the provider needs to talk to its backend
+ * (client, project, resolved target) and is created once per run.
+ */
+export interface Provider<TContext = unknown> {
+  name: ProviderName;
+  description: string;
+  /** Provider-specific CLI flags, keyed by long flag name */
+  options?: Record<string, ProviderOption>;
+  /** Usage examples shown in help output */
+  examples?: string[];
+  /** Environment variables read by the provider, shown in help output */
+  environment?: Record<string, string>;
+  /** Target used when none is given, e.g. for per-target schema rules */
+  defaultTarget?: string;
+  /**
+   * Get the target the arguments select, when provider flags can change it
+   * Takes precedence over the given target and defaultTarget.
+   */
+  getTarget?(args: ProviderArgs): string | undefined;
+  /**
+   * Describe the resolved destination, e.g. its project, team and target
+   * Snapshots are only restored onto a destination with the same identity;
+   * the target is used when unset.
+   */
+  identify?(context: TContext): string;
+  /** Provider-specific commands, keyed by name */
+  commands?: Record<string, ProviderCommand>;
+  resolve(args: ProviderArgs): Promise<TContext>;
+  list(context: TContext): Promise<RemoteEnvVar[]>;
+  plan(context: TContext, envVars: EnvVars, current: RemoteEnvVar[]): PushPlan;
+  apply(context: TContext, plan: PushPlan): Promise<void>;
+}
+
+/**
+ * Named deployment from the config file
+ * Keys other than provider, target and env are provider flag values.
+ */
+export interface DeploymentConfig {
+  provider: ProviderName;
+  target?: string;
+  env?: string;
+  [option: string]: string | boolean | undefined;
+}
+
+/** Project configuration from dotenv-push.config.json / .js */
+export interface DotenvPushConfig {
+  /** Provider modules to load, relative to the config file */
+  plugins?: string[];
+  deployments: Record<string, DeploymentConfig>;
+  /** Named lists of destinations pushed together */
+  groups?: Record<string, string[]>;
+  /** Provider-wide settings, keyed by provider name */
+  providers?: Record<string, Record<string, unknown>>;
+  /** Key filtering and renaming applied before pushing */
+  transform?: KeyTransform;
+  /** Env schema, inline or as a path to a JSON file */
+  schema?: EnvSchema | string;
+  /** Directory snapshots are saved to, relative to the config file */
+  snapshotDir?: string;
+}
+
+/** Config file together with where it was loaded from */
+export interface LoadedConfig {
+  path: string;
+  config: DotenvPushConfig;
+}
+
 /** Vercel project configuration from .vercel/project.json */
 export interface VercelProjectConfig {
   projectId: string;
@@ -69,7 +371,14 @@ export class VercelApiError extends DotenvPushError {
 }
 
 export class ConvexApiError extends DotenvPushError {
-  constructor(message: string, cause?: Error) {
+  constructor(
+    message: string,
+    cause?: Error,
+    /** HTTP status of a failed deployment API request */
+    public readonly statusCode?: number,
+    /** Response headers of a failed request, e.g. Retry-After */
+    public readonly headers?: Headers
+  ) {
     super(message, 'CONVEX_API_ERROR', cause);
     this.name = 'ConvexApiError';
   }
@@ -86,6 +395,47 @@ export class EnvLoadError extends DotenvPushError {
   }
 }
 
+export class EnvFormatError extends DotenvPushError {
+  constructor(
+    message: string,
+    public readonly key: string
+  ) {
+    super(message, 'ENV_FORMAT_ERROR');
+    this.name = 'EnvFormatError';
+  }
+}
+
+export class EnvValidationError extends DotenvPushError {
+  constructor(
+    message: string,
+    public readonly violations: string[]
+  ) {
+    super(message, 'ENV_VALIDATION_ERROR');
+    this.name = 'EnvValidationError';
+  }
+}
+
+export class ApplyError extends DotenvPushError {
+  constructor(
+    message: string,
+    /** Keys whose changes were reverted */
+    public readonly reverted: string[],
+    /** Keys whose changes could not be reverted, with the reason */
+    public readonly unreverted: string[],
+    cause?: Error
+  ) {
+    super(message, 'APPLY_FAILED', cause);
+    this.name = 'ApplyError';
+  }
+}
+
+export class SnapshotError extends DotenvPushError {
+  constructor(message: string, cause?: Error) {
+    super(message, 'SNAPSHOT_ERROR', cause);
+    this.name = 'SnapshotError';
+  }
+}
+
 export class ConfigError extends DotenvPushError {
   constructor(message: string, cause?: Error) {
     super(message, 'CONFIG_ERROR', cause);
@@ -93,13 +443,6 @@ export class ConfigError extends DotenvPushError {
   }
 }
 
-/** Type guard for checking if value is a supported provider */
-export function isSupportedProvider(value: unknown): value is Provider {
-  return (
-    typeof value === 'string' && SUPPORTED_PROVIDERS.includes(value as Provider)
-  );
-}
-
 /** Type guard for checking if object has required Vercel project properties */
 export function isVercelProjectConfig(
   obj: unknown
@@ -111,3 +454,20 @@ export function isVercelProjectConfig(
     typeof (obj as { projectId?: unknown }).projectId === 'string'
   );
 }
+
+/** Type guard for checking if a loaded module export implements Provider */
+export function isProvider(obj: unknown): obj is Provider {
+  if (typeof obj !== 'object' || obj === null) {
+    return false;
+  }
+
+  const candidate = obj as Partial<Record<keyof Provider, unknown>>;
+  return (
+    typeof candidate.name === 'string' &&
+    typeof candidate.description === 'string' &&
+    typeof candidate.resolve === 'function' &&
+    typeof candidate.list === 'function' &&
+    typeof candidate.plan === 'function' &&
+    typeof candidate.apply === 'function'
+  );
+}
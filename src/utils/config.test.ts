@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, type Mock, mock } from 'bun:test';
+import { existsSync, readFileSync } from 'node:fs';
+import { ConfigError } from '../types/index.js';
+import { findConfigFile, loadConfig } from './config.js';
+
+await mock.module('node:fs', () => ({
+  existsSync: mock(),
+  readFileSync: mock(),
+}));
+
+const mockExistsSync = existsSync as unknown as Mock<typeof existsSync>;
+const mockReadFileSync = readFileSync as unknown as Mock<typeof readFileSync>;
+
+/** Make exactly the given paths exist */
+function givenFiles(files: Record<string, string>) {
+  mockExistsSync.mockImplementation(path => String(path) in files);
+  mockReadFileSync.mockImplementation(
+    ((path: string) => files[path]) as unknown as typeof readFileSync
+  );
+}
+
+describe('Config Utils', () => {
+  beforeEach(() => {
+    mockExistsSync.mockReset();
+    mockReadFileSync.mockReset();
+  });
+
+  describe('findConfigFile', () => {
+    it('should find a config file in a parent directory', () => {
+      givenFiles({ '/repo/dotenv-push.config.json': '{}' });
+
+      expect(findConfigFile('/repo/apps/web')).toBe(
+        '/repo/dotenv-push.config.json'
+      );
+    });
+
+    it('should prefer JSON over JavaScript in the same directory', () => {
+      givenFiles({
+        '/repo/dotenv-push.config.js': '',
+        '/repo/dotenv-push.config.json': '{}',
+      });
+
+      expect(findConfigFile('/repo')).toBe('/repo/dotenv-push.config.json');
+    });
+
+    it('should not discover TypeScript config files', () => {
+      givenFiles({ '/dotenv-push.config.ts': '' });
+
+      expect(findConfigFile('/repo')).toBeUndefined();
+    });
+
+    it('should return undefined when there is no config file', () => {
+      givenFiles({});
+
+      expect(findConfigFile('/repo/apps/web')).toBeUndefined();
+    });
+  });
+
+  describe('loadConfig', () => {
+    it('should resolve paths relative to the config file', async () => {
+      givenFiles({
+        '/repo/dotenv-push.config.json': JSON.stringify({
+          plugins: ['./providers/custom.js'],
+          deployments: {
+            'prod-web': {
+              provider: 'vercel',
+              target: 'production',
+              env: 'apps/web/.env.production',
+              project: 'prj_123',
+            },
+          },
+        }),
+      });
+
+      const loaded = await loadConfig('/repo/dotenv-push.config.json');
+
+      expect(loaded?.config).toEqual({
+        plugins: ['/repo/providers/custom.js'],
+        deployments: {
+          'prod-web': {
+            provider: 'vercel',
+            target: 'production',
+            env: '/repo/apps/web/.env.production',
+            project: 'prj_123',
+          },
+        },
+        groups: undefined,
+      });
+    });
+
+    it('should reject deployments without a provider', async () => {
+      givenFiles({
+        '/repo/dotenv-push.config.json': JSON.stringify({
+          deployments: { web: { target: 'production' } },
+        }),
+      });
+
+      const error = await loadConfig('/repo/dotenv-push.config.json').catch(
+        e => e
+      );
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect(error.message).toContain('deployments.web.provider: Required');
+    });
+
+    it('should report unreadable config files', async () => {
+      givenFiles({ '/repo/dotenv-push.config.json': 'not json' });
+
+      await expect(loadConfig('/repo/dotenv-push.config.json')).rejects.toThrow(
+        'Failed to load config file'
+      );
+    });
+  });
+});
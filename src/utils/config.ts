@@ -0,0 +1,130 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { validateConfig } from '../schemas/index.js';
+import {
+  ConfigError,
+  type DeploymentConfig,
+  type LoadedConfig,
+} from '../types/index.js';
+
+/**
+ * Config file names, in order of preference within a directory
+ * TypeScript configs are not discovered: Node cannot import them without
+ * type stripping, so one in a parent directory would break every command.
+ */
+export const CONFIG_FILE_NAMES = [
+  'dotenv-push.config.json',
+  'dotenv-push.config.js',
+  'dotenv-push.config.mjs',
+] as const;
+
+/**
+ * Find the nearest config file, starting at a directory and walking up
+ * @param startDir Directory to start from
+ * @returns Absolute config file path, or undefined when there is none
+ */
+export function findConfigFile(startDir: string): string | undefined {
+  let dir = resolve(startDir);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Read the raw content of a JSON or JS config module
+ * TypeScript configs passed with --config load where the runtime supports
+ * them, e.g. Bun or Node with --experimental-strip-types.
+ * @throws {ConfigError} When the runtime cannot import TypeScript
+ */
+async function readConfigFile(path: string): Promise<unknown> {
+  if (path.endsWith('.json')) {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  }
+
+  let mod: Record<string, unknown>;
+  try {
+    mod = await import(pathToFileURL(path).href);
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+      throw new ConfigError(
+        `Cannot load TypeScript config file ${path} with this runtime. Use dotenv-push.config.json or .js, or run Node with --experimental-strip-types.`,
+        error instanceof Error ? error : undefined
+      );
+    }
+    throw error;
+  }
+  return mod.default ?? mod.config;
+}
+
+/**
+ * Load and validate the project config file
+ * Relative paths in the config (plugins, env files, schema) are resolved against
+ * the directory containing it.
+ * @param configPath Explicit config path; discovered from the cwd otherwise
+ * @returns The loaded config, or undefined when no config file exists
+ * @throws {ConfigError} When the file cannot be read or is invalid
+ */
+export async function loadConfig(
+  configPath?: string
+): Promise<LoadedConfig | undefined> {
+  const path = configPath ? resolve(configPath) : findConfigFile(process.cwd());
+  if (!path) {
+    return undefined;
+  }
+
+  let data: unknown;
+  try {
+    data = await readConfigFile(path);
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(
+      `Failed to load config file ${path}: ${message}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const config = validateConfig(data, path);
+  const dir = dirname(path);
+
+  const deployments: Record<string, DeploymentConfig> = {};
+  for (const [name, deployment] of Object.entries(config.deployments)) {
+    deployments[name] = {
+      ...deployment,
+      env: deployment.env ? resolve(dir, deployment.env) : undefined,
+    };
+  }
+
+  return {
+    path,
+    config: {
+      plugins: config.plugins?.map(plugin => resolve(dir, plugin)),
+      deployments,
+      groups: config.groups,
+      providers: config.providers,
+      transform: config.transform,
+      schema:
+        typeof config.schema === 'string'
+          ? resolve(dir, config.schema)
+          : config.schema,
+      snapshotDir: config.snapshotDir
+        ? resolve(dir, config.snapshotDir)
+        : undefined,
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  type Mock,
+  mock,
+} from 'bun:test';
+import { readFileSync } from 'node:fs';
+import {
+  type MockConvexServer,
+  startMockConvexServer,
+} from '../test-utils/convex-server.js';
+import {
+  authorizePreviewDeployment,
+  type ConvexClient,
+  getConfiguredDeployment,
+  getConvexAccessToken,
+  listEnvironmentVariables,
+  parseConfiguredDeployment,
+  parseDeployKey,
+  updateEnvironmentVariables,
+} from './convex.js';
+
+await mock.module('node:fs', () => ({
+  readFileSync: mock(),
+}));
+await mock.module('dotenv', () => ({
+  parse: (content: string) =>
+    Object.fromEntries(content.split('\n').map(line => line.split('='))),
+}));
+
+const mockReadFileSync = readFileSync as unknown as Mock<typeof readFileSync>;
+
+/** Make exactly the given paths readable */
+function givenFiles(files: Record<string, string>) {
+  mockReadFileSync.mockImplementation(((path: string) => {
+    if (!(path in files)) {
+      throw new Error(`ENOENT: no such file or directory, open '${path}'`);
+    }
+    return files[path];
+  }) as unknown as typeof readFileSync);
+}
+
+/** Client for a mock deployment that does not wait between retries */
+function createClient(server: MockConvexServer): ConvexClient {
+  return {
+    url: server.url,
+    authorization: 'Convex prod:happy-animal-123|secret',
+    retry: {
+      maxAttempts: 2,
+      baseDelayMs: 0,
+      maxDelayMs: 0,
+      sleep: () => Promise.resolve(),
+    },
+  };
+}
+
+describe('Convex Utils', () => {
+  let server: MockConvexServer | undefined;
+
+  afterEach(() => {
+    server?.stop();
+    server = undefined;
+  });
+
+  describe('parseDeployKey', () => {
+    it('should read the deployment of a deploy key', () => {
+      expect(parseDeployKey('prod:happy-animal-123|secret')).toEqual({
+        type: 'prod',
+        deploymentName: 'happy-animal-123',
+      });
+      expect(parseDeployKey('preview:acme:shop|secret')).toEqual({
+        type: 'preview',
+      });
+    });
+
+    it('should reject keys in another format', () => {
+      expect(() => parseDeployKey('secret')).toThrow(
+        'Invalid CONVEX_DEPLOY_KEY'
+      );
+      expect(() => parseDeployKey('prod:|secret')).toThrow(
+        'Invalid CONVEX_DEPLOY_KEY'
+      );
+    });
+  });
+
+  describe('getConvexAccessToken', () => {
+    it('should read the token saved by the Convex CLI', () => {
+      givenFiles({ '/home/.convex/config.json': '{"accessToken":"abc"}' });
+
+      expect(getConvexAccessToken('/home/.convex/config.json')).toBe('abc');
+    });
+
+    it('should return nothing when not logged in', () => {
+      givenFiles({});
+
+      expect(getConvexAccessToken('/nonexistent/config.json')).toBeUndefined();
+    });
+  });
+
+  describe('getConfiguredDeployment', () => {
+    let previous: string | undefined;
+
+    beforeEach(() => {
+      previous = process.env.CONVEX_DEPLOYMENT;
+      delete process.env.CONVEX_DEPLOYMENT;
+    });
+
+    afterEach(() => {
+      if (previous === undefined) {
+        delete process.env.CONVEX_DEPLOYMENT;
+      } else {
+        process.env.CONVEX_DEPLOYMENT = previous;
+      }
+    });
+
+    it('should read CONVEX_DEPLOYMENT from .env.local', () => {
+      givenFiles({
+        '.env.local':
+          'CONVEX_DEPLOYMENT=dev:happy-animal-123\nCONVEX_URL=https://happy-animal-123.convex.cloud',
+      });
+
+      expect(getConfiguredDeployment()).toEqual({
+        type: 'dev',
+        deploymentName: 'happy-animal-123',
+      });
+    });
+
+    it('should prefer the environment over the file', () => {
+      process.env.CONVEX_DEPLOYMENT = 'prod:calm-otter-789';
+      givenFiles({ '.env.local': 'CONVEX_DEPLOYMENT=dev:happy-animal-123' });
+
+      expect(getConfiguredDeployment()).toEqual({
+        type: 'prod',
+        deploymentName: 'calm-otter-789',
+      });
+    });
+
+    it('should return nothing without a configured deployment', () => {
+      givenFiles({});
+
+      expect(getConfiguredDeployment()).toBeUndefined();
+    });
+
+    it('should accept a deployment name without a type', () => {
+      expect(parseConfiguredDeployment('happy-animal-123')).toEqual({
+        deploymentName: 'happy-animal-123',
+      });
+    });
+  });
+
+  describe('deployment API', () => {
+    it('should list variables with the deploy key', async () => {
+      server = startMockConvexServer({
+        env: { API_URL: 'https://example.com', PEM: 'a\nb=c' },
+      });
+
+      const variables = await listEnvironmentVariables(createClient(server));
+
+      expect(variables).toEqual({
+        API_URL: 'https://example.com',
+        PEM: 'a\nb=c',
+      });
+      expect(server.requests[0].authorization).toBe(
+        'Convex prod:happy-animal-123|secret'
+      );
+    });
+
+    it('should set and remove variables in one request', async () => {
+      server = startMockConvexServer({ env: { OLD: 'x', KEEP: 'y' } });
+
+      await updateEnvironmentVariables(createClient(server), [
+        { name: 'NEW', value: 'z' },
+        { name: 'OLD' },
+      ]);
+
+      expect(server.env).toEqual({ KEEP: 'y', NEW: 'z' });
+      expect(server.requests).toHaveLength(1);
+    });
+
+    it('should retry rate limited requests', async () => {
+      server = startMockConvexServer({
+        failures: [{ status: 429, headers: { 'retry-after': '0' } }],
+      });
+
+      await listEnvironmentVariables(createClient(server));
+
+      expect(server.requests).toHaveLength(2);
+    });
+
+    it('should find the preview deployment of a preview name', async () => {
+      server = startMockConvexServer({ previews: ['feature-x'] });
+      const previousHost = process.env.CONVEX_PROVISION_HOST;
+      process.env.CONVEX_PROVISION_HOST = server.url;
+
+      try {
+        const preview = await authorizePreviewDeployment(
+          'preview:acme:shop|secret',
+          'feature-x',
+          createClient(server).retry
+        );
+
+        expect(preview).toEqual({
+          deploymentName: 'preview-feature-x',
+          url: server.url,
+          adminKey: 'admin-feature-x',
+        });
+        expect(server.requests[0]).toMatchObject({
+          path: '/api/deployment/authorize_preview',
+          authorization: 'Convex preview:acme:shop|secret',
+          body: { previewName: 'feature-x' },
+        });
+      } finally {
+        if (previousHost === undefined) {
+          delete process.env.CONVEX_PROVISION_HOST;
+        } else {
+          process.env.CONVEX_PROVISION_HOST = previousHost;
+        }
+      }
+    });
+
+    it('should explain rejected credentials', async () => {
+      server = startMockConvexServer({ authorization: 'Convex other' });
+
+      await expect(
+        listEnvironmentVariables(createClient(server))
+      ).rejects.toThrow('HTTP 401 (check CONVEX_DEPLOY_KEY');
+    });
+  });
+});
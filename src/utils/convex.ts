@@ -0,0 +1,281 @@
+import { readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parse } from 'dotenv';
+import { ConfigError, ConvexApiError } from '../types/index.js';
+import { type RetryOptions, withRetry } from './retry.js';
+
+/** Credentials file written by `npx convex login` */
+export const CONVEX_CONFIG_PATH = join(homedir(), '.convex', 'config.json');
+
+/** Deployment a Convex deploy key grants access to */
+export interface ConvexDeployKey {
+  /** Kind of deployment, e.g. "prod", "dev" or "preview" */
+  type: string;
+  /** Deployment name; absent for preview keys, which cover a project */
+  deploymentName?: string;
+}
+
+/** Authenticated connection to one Convex deployment */
+export interface ConvexClient {
+  /** Deployment URL, e.g. https://happy-animal-123.convex.cloud */
+  url: string;
+  /** Authorization header value */
+  authorization: string;
+  retry: RetryOptions;
+}
+
+/** Deployment configured by `npx convex dev`, e.g. `dev:happy-animal-123` */
+export interface ConfiguredDeployment {
+  /** Kind of deployment, when the value is prefixed with one */
+  type?: string;
+  deploymentName: string;
+}
+
+/** Deployment a preview deploy key resolved a preview name to */
+export interface PreviewDeployment {
+  deploymentName: string;
+  url: string;
+  /** Key that authorizes requests to the preview deployment */
+  adminKey: string;
+}
+
+/** Change to one variable; without a value the variable is removed */
+export interface ConvexEnvChange {
+  name: string;
+  value?: string;
+}
+
+/**
+ * Parse a deploy key such as `prod:happy-animal-123|<secret>`
+ * Preview keys (`preview:<team>:<project>|<secret>`) name no deployment.
+ * @throws {ConfigError} When the key is not in the deploy key format
+ */
+export function parseDeployKey(key: string): ConvexDeployKey {
+  const separator = key.indexOf('|');
+  const parts = key.slice(0, Math.max(separator, 0)).split(':');
+  if (separator < 0 || parts.length < 2 || parts.some(part => !part)) {
+    throw new ConfigError(
+      'Invalid CONVEX_DEPLOY_KEY. Copy a deploy key from the deployment settings in the Convex dashboard.'
+    );
+  }
+
+  const [type, ...names] = parts;
+  return names.length === 1 ? { type, deploymentName: names[0] } : { type };
+}
+
+/**
+ * Read the access token saved by `npx convex login`
+ * @returns The token, or undefined when not logged in
+ */
+export function getConvexAccessToken(
+  configPath = CONVEX_CONFIG_PATH
+): string | undefined {
+  try {
+    const config: unknown = JSON.parse(readFileSync(configPath, 'utf-8'));
+    const { accessToken } = (config ?? {}) as { accessToken?: unknown };
+    return typeof accessToken === 'string' && accessToken
+      ? accessToken
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read the deployment configured for the project
+ * Like the Convex CLI, CONVEX_DEPLOYMENT is taken from the environment and
+ * otherwise from the env file `npx convex dev` writes.
+ * @returns The deployment, or undefined when none is configured
+ */
+export function getConfiguredDeployment(
+  envFile = '.env.local'
+): ConfiguredDeployment | undefined {
+  let value = process.env.CONVEX_DEPLOYMENT;
+  if (!value) {
+    try {
+      value = parse(readFileSync(envFile, 'utf-8')).CONVEX_DEPLOYMENT;
+    } catch {
+      return undefined;
+    }
+  }
+
+  return value ? parseConfiguredDeployment(value) : undefined;
+}
+
+/**
+ * Parse a CONVEX_DEPLOYMENT value such as `dev:happy-animal-123`
+ */
+export function parseConfiguredDeployment(value: string): ConfiguredDeployment {
+  const separator = value.indexOf(':');
+  return separator < 0
+    ? { deploymentName: value.trim() }
+    : {
+        type: value.slice(0, separator).trim(),
+        deploymentName: value.slice(separator + 1).trim(),
+      };
+}
+
+/**
+ * Get the URL of the Convex management API
+ * CONVEX_PROVISION_HOST overrides the host, as in the Convex CLI.
+ */
+export function getManagementUrl(): string {
+  const host = process.env.CONVEX_PROVISION_HOST || 'https://api.convex.dev';
+  return `${host.replace(/\/+$/, '')}/api`;
+}
+
+/**
+ * Get the URL of a cloud deployment
+ */
+export function getDeploymentUrl(deploymentName: string): string {
+  return `https://${deploymentName}.convex.cloud`;
+}
+
+/**
+ * Send a request to the deployment API
+ * Rate limits and server errors are retried.
+ * @param description What the request does, for retry warnings
+ * @param failure Prefix of the error message when the request fails
+ * @returns The parsed JSON response body, if any
+ * @throws {ConvexApiError} When the request fails
+ */
+async function request(
+  client: ConvexClient,
+  path: string,
+  init: { method: 'GET' | 'POST'; body?: unknown },
+  description: string,
+  failure: string
+): Promise<unknown> {
+  const url = `${client.url.replace(/\/+$/, '')}${path}`;
+
+  return withRetry(
+    async () => {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: init.method,
+          headers: {
+            Authorization: client.authorization,
+            'Content-Type': 'application/json',
+          },
+          body: init.body === undefined ? undefined : JSON.stringify(init.body),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new ConvexApiError(
+          `${failure}: cannot reach ${client.url} (${message})`,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      const text = await response.text();
+      if (!response.ok) {
+        const reason =
+          response.status === 401 || response.status === 403
+            ? 'check CONVEX_DEPLOY_KEY or run `npx convex login`'
+            : text.trim() || response.statusText;
+        throw new ConvexApiError(
+          `${failure}: HTTP ${response.status} (${reason})`,
+          undefined,
+          response.status,
+          response.headers
+        );
+      }
+
+      try {
+        return text ? JSON.parse(text) : undefined;
+      } catch (error) {
+        throw new ConvexApiError(
+          `${failure}: response is not JSON`,
+          error instanceof Error ? error : undefined
+        );
+      }
+    },
+    client.retry,
+    description
+  );
+}
+
+/**
+ * Fetch all environment variables of the deployment
+ * @returns Values by name
+ * @throws {ConvexApiError} When the request fails or the response is invalid
+ */
+export async function listEnvironmentVariables(
+  client: ConvexClient
+): Promise<Record<string, string>> {
+  const body = await request(
+    client,
+    '/api/v1/list_environment_variables',
+    { method: 'GET' },
+    'Listing Convex environment variables',
+    'Failed to list Convex environment variables'
+  );
+
+  const variables = (body as { environmentVariables?: unknown } | undefined)
+    ?.environmentVariables;
+  if (
+    typeof variables !== 'object' ||
+    variables === null ||
+    Object.values(variables).some(value => typeof value !== 'string')
+  ) {
+    throw new ConvexApiError(
+      'Failed to list Convex environment variables: unexpected response'
+    );
+  }
+  return variables as Record<string, string>;
+}
+
+/**
+ * Set and remove environment variables in one request
+ * The deployment applies the changes together, so a failed request
+ * changes nothing.
+ * @throws {ConvexApiError} When the request fails
+ */
+export async function updateEnvironmentVariables(
+  client: ConvexClient,
+  changes: ConvexEnvChange[]
+): Promise<void> {
+  await request(
+    client,
+    '/api/v1/update_environment_variables',
+    { method: 'POST', body: { changes } },
+    'Updating Convex environment variables',
+    'Failed to update Convex environment variables'
+  );
+}
+
+/**
+ * Find the preview deployment of a preview name, e.g. a git branch
+ * @param deployKey Preview deploy key of the project
+ * @throws {ConvexApiError} When the preview does not exist or the request fails
+ */
+export async function authorizePreviewDeployment(
+  deployKey: string,
+  previewName: string,
+  retry: RetryOptions
+): Promise<PreviewDeployment> {
+  const body = await request(
+    { url: getManagementUrl(), authorization: `Convex ${deployKey}`, retry },
+    '/deployment/authorize_preview',
+    { method: 'POST', body: { previewName } },
+    `Finding Convex preview deployment "${previewName}"`,
+    `Failed to find Convex preview deployment "${previewName}"`
+  );
+
+  const { deploymentName, url, adminKey } = (body ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (
+    typeof deploymentName !== 'string' ||
+    typeof url !== 'string' ||
+    typeof adminKey !== 'string'
+  ) {
+    throw new ConvexApiError(
+      `Failed to find Convex preview deployment "${previewName}": unexpected response`
+    );
+  }
+  return { deploymentName, url, adminKey };
+}
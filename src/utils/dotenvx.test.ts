@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, type Mock, mock } from 'bun:test';
+import { existsSync, readFileSync } from 'node:fs';
+import { encrypt, PrivateKey } from 'eciesjs';
+import { EnvLoadError } from '../types/index.js';
+import { decryptEnvVars, isEncryptedValue } from './dotenvx.js';
+
+await mock.module('node:fs', () => ({
+  existsSync: mock(),
+  readFileSync: mock(),
+}));
+await mock.module('dotenv', () => ({
+  parse: (content: string) =>
+    Object.fromEntries(content.split('\n').map(line => line.split('='))),
+}));
+
+const mockExistsSync = existsSync as unknown as Mock<typeof existsSync>;
+const mockReadFileSync = readFileSync as unknown as Mock<typeof readFileSync>;
+
+/** Value and key pair produced by `dotenvx encrypt` for HELLO=world */
+const DOTENVX_FIXTURE = {
+  publicKey:
+    '02e183a5e2ef32bace28b48b45d3bfef819d6a0a9d8d2b83e34b99e12177a4f8ce',
+  privateKey:
+    'c854f04ca637c7eb667576f445262e3eccb3303356765e943a2156361168a574',
+  value:
+    'encrypted:BJZ30OT1KRBmflsCMI3x114P98EyR4L6RczyHO85+mKkggEwz9Ie+sGgLaidwW7oBxFQMv7+aebFR4xQDStKl3F4ikU8uGThI5yIOBmA0LWrV1GfJS0CQG4jonkGNE6Gsbmx8ZEI',
+};
+
+/** Encrypt a value the way dotenvx does */
+function encryptValue(publicKey: string, value: string): string {
+  const payload = Buffer.from(encrypt(publicKey, Buffer.from(value)));
+  return `encrypted:${payload.toString('base64')}`;
+}
+
+describe('dotenvx Decryption', () => {
+  const encryptedFile = {
+    DOTENV_PUBLIC_KEY_PRODUCTION: DOTENVX_FIXTURE.publicKey,
+    HELLO: DOTENVX_FIXTURE.value,
+    PLAIN: 'value',
+  };
+
+  beforeEach(() => {
+    mockExistsSync.mockReset();
+    mockReadFileSync.mockReset();
+    mockExistsSync.mockReturnValue(false);
+  });
+
+  it('should leave files without encrypted values untouched', () => {
+    const envVars = { API_URL: 'https://example.com' };
+
+    expect(decryptEnvVars(envVars, '.env.production', {})).toBe(envVars);
+    expect(isEncryptedValue(DOTENVX_FIXTURE.value)).toBe(true);
+  });
+
+  it('should decrypt with the private key from the environment', () => {
+    const result = decryptEnvVars(encryptedFile, '.env.production', {
+      DOTENV_PRIVATE_KEY_PRODUCTION: DOTENVX_FIXTURE.privateKey,
+    });
+
+    expect(result).toEqual({ HELLO: 'world', PLAIN: 'value' });
+    expect(mockExistsSync).not.toHaveBeenCalled();
+  });
+
+  it('should read the private key from .env.keys next to the file', () => {
+    mockExistsSync.mockImplementation(path => path === 'config/.env.keys');
+    mockReadFileSync.mockReturnValue(
+      `DOTENV_PRIVATE_KEY_PRODUCTION=${DOTENVX_FIXTURE.privateKey}`
+    );
+
+    const result = decryptEnvVars(encryptedFile, 'config/.env.production', {});
+
+    expect(result.HELLO).toBe('world');
+  });
+
+  it('should derive the key name from the file without a header', () => {
+    const key = new PrivateKey();
+    const envVars = {
+      SECRET: encryptValue(key.publicKey.toHex(true), 'multi\nline'),
+    };
+
+    const result = decryptEnvVars(envVars, 'apps/.env.preview.local', {
+      DOTENV_PRIVATE_KEY_PREVIEW_LOCAL: `invalid,${key.toHex()}`,
+    });
+
+    expect(result.SECRET).toBe('multi\nline');
+  });
+
+  it('should fail when the private key is missing', () => {
+    expect(() => decryptEnvVars(encryptedFile, '.env.production', {})).toThrow(
+      '.env.production contains encrypted values, but DOTENV_PRIVATE_KEY_PRODUCTION was not found'
+    );
+  });
+
+  it('should fail when the private key does not match', () => {
+    const other = new PrivateKey().toHex();
+
+    expect(() =>
+      decryptEnvVars(encryptedFile, '.env.production', {
+        DOTENV_PRIVATE_KEY_PRODUCTION: other,
+      })
+    ).toThrow(EnvLoadError);
+    expect(() =>
+      decryptEnvVars({ TOKEN: DOTENVX_FIXTURE.value }, '.env', {
+        DOTENV_PRIVATE_KEY: other,
+      })
+    ).toThrow('Failed to decrypt TOKEN in .env with DOTENV_PRIVATE_KEY');
+  });
+});
@@ -0,0 +1,164 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { parse } from 'dotenv';
+import { decrypt, PrivateKey } from 'eciesjs';
+import { EnvLoadError, type EnvVars } from '../types/index.js';
+
+/** Prefix of values encrypted by dotenvx */
+const ENCRYPTED_PREFIX = 'encrypted:';
+
+/** Header key holding the public key an env file is encrypted with */
+const PUBLIC_KEY_NAME = /^DOTENV_PUBLIC_KEY(_\w+)?$/;
+
+/** File next to the env files holding dotenvx private keys */
+export const KEYS_FILE_NAME = '.env.keys';
+
+/**
+ * Check whether a value was encrypted by dotenvx
+ */
+export function isEncryptedValue(value: string): boolean {
+  return value.startsWith(ENCRYPTED_PREFIX);
+}
+
+/**
+ * Derive the environment suffix dotenvx uses for an env file
+ * `.env` has no suffix, `.env.production.local` has `_PRODUCTION_LOCAL`.
+ */
+function getEnvSuffix(envFile: string): string {
+  const name = basename(envFile);
+  if (!name.startsWith('.env.')) {
+    return '';
+  }
+
+  return `_${name.slice('.env.'.length).replace(/\W/g, '_').toUpperCase()}`;
+}
+
+/**
+ * Look up a private key in the process environment, then in .env.keys
+ * next to the env file
+ * @returns Candidate private keys (dotenvx allows a comma-separated list)
+ */
+function findPrivateKeys(
+  name: string,
+  envFile: string,
+  processEnv: Record<string, string | undefined>
+): string[] {
+  let value = processEnv[name];
+
+  const keysFile = join(dirname(envFile), KEYS_FILE_NAME);
+  if (!value && existsSync(keysFile)) {
+    value = parse(readFileSync(keysFile, 'utf-8'))[name];
+  }
+
+  return (value ?? '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Derive the compressed public key of a hex private key
+ * @returns The public key, or undefined when the private key is invalid
+ */
+function getPublicKey(privateKey: string): string | undefined {
+  try {
+    return PrivateKey.fromHex(privateKey).publicKey.toHex(true);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decrypt a single dotenvx value
+ * @returns The plain value, or undefined when no key can decrypt it
+ */
+function decryptValue(
+  value: string,
+  privateKeys: string[]
+): string | undefined {
+  const payload = Buffer.from(value.slice(ENCRYPTED_PREFIX.length), 'base64');
+
+  for (const privateKey of privateKeys) {
+    try {
+      return Buffer.from(decrypt(privateKey, payload)).toString('utf-8');
+    } catch {
+      // Try the next key
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decrypt the `encrypted:` values of a dotenvx env file
+ * The private key is read from `DOTENV_PRIVATE_KEY_<ENV>` (matching the
+ * file's `DOTENV_PUBLIC_KEY_<ENV>` header) in the process environment or
+ * in .env.keys next to the file. The public key header is not returned.
+ * @param envVars Parsed variables of the file
+ * @param envFile Path of the file, used to find the key
+ * @returns The variables with plain values
+ * @throws {EnvLoadError} When the private key is missing or does not match
+ */
+export function decryptEnvVars(
+  envVars: EnvVars,
+  envFile: string,
+  processEnv: Record<string, string | undefined> = process.env
+): EnvVars {
+  const publicKeyName = Object.keys(envVars).find(key =>
+    PUBLIC_KEY_NAME.test(key)
+  );
+  const encrypted = Object.keys(envVars).filter(key =>
+    isEncryptedValue(envVars[key])
+  );
+
+  if (!publicKeyName && encrypted.length === 0) {
+    return envVars;
+  }
+
+  const privateKeyName = publicKeyName
+    ? publicKeyName.replace('PUBLIC', 'PRIVATE')
+    : `DOTENV_PRIVATE_KEY${getEnvSuffix(envFile)}`;
+
+  const decrypted: EnvVars = {};
+  for (const [key, value] of Object.entries(envVars)) {
+    if (!PUBLIC_KEY_NAME.test(key)) {
+      decrypted[key] = value;
+    }
+  }
+
+  if (encrypted.length === 0) {
+    return decrypted;
+  }
+
+  let privateKeys = findPrivateKeys(privateKeyName, envFile, processEnv);
+  if (privateKeys.length === 0) {
+    throw new EnvLoadError(
+      `${envFile} contains encrypted values, but ${privateKeyName} was not found. Set it in the environment or in ${KEYS_FILE_NAME}.`,
+      envFile
+    );
+  }
+
+  // Only keys belonging to the file's public key can decrypt it
+  if (publicKeyName) {
+    const publicKey = envVars[publicKeyName];
+    privateKeys = privateKeys.filter(key => getPublicKey(key) === publicKey);
+    if (privateKeys.length === 0) {
+      throw new EnvLoadError(
+        `${privateKeyName} does not match ${publicKeyName} of ${envFile}`,
+        envFile
+      );
+    }
+  }
+
+  for (const key of encrypted) {
+    const value = decryptValue(envVars[key], privateKeys);
+    if (value === undefined) {
+      throw new EnvLoadError(
+        `Failed to decrypt ${key} in ${envFile} with ${privateKeyName}`,
+        envFile
+      );
+    }
+    decrypted[key] = value;
+  }
+
+  return decrypted;
+}
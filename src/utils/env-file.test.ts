@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'bun:test';
+import { parse } from 'dotenv';
+import { formatEnvFile, quoteEnvValue } from './env-file.js';
+
+describe('Env File Utils', () => {
+  describe('quoteEnvValue', () => {
+    it('should leave simple values unquoted', () => {
+      expect(quoteEnvValue('postgres://user@host:5432/db')).toBe(
+        'postgres://user@host:5432/db'
+      );
+    });
+
+    it('should single-quote values with spaces, comments or newlines', () => {
+      expect(quoteEnvValue('hello world')).toBe("'hello world'");
+      expect(quoteEnvValue('a#b')).toBe("'a#b'");
+      expect(quoteEnvValue('line1\nline2')).toBe("'line1\nline2'");
+      expect(quoteEnvValue('')).toBe("''");
+    });
+
+    it('should fall back to backticks for values with single quotes', () => {
+      expect(quoteEnvValue("it's")).toBe("`it's`");
+    });
+
+    it('should write values that dotenv reads back unchanged', () => {
+      const values = [
+        'plain',
+        'hello world',
+        'line1\nline2',
+        "it's",
+        "it's `quoted`",
+        "it's `multi`\nline",
+        "it's `C:\\path`",
+        'say "hi"',
+        'C:\\path\\name',
+        '',
+      ];
+
+      for (const value of values) {
+        expect(parse(`KEY=${quoteEnvValue(value)}`).KEY).toBe(value);
+      }
+    });
+
+    it('should reject values that dotenv cannot read back', () => {
+      expect(() => quoteEnvValue('it\'s `a` "b"', 'QUOTES')).toThrow(
+        'Cannot write QUOTES to an env file'
+      );
+      expect(() => quoteEnvValue("it's `a` \\n", 'ESCAPE')).toThrow(
+        'Cannot write ESCAPE to an env file'
+      );
+    });
+  });
+
+  describe('formatEnvFile', () => {
+    it('should write one assignment per key', () => {
+      expect(formatEnvFile({ A: '1', B: 'two words' })).toBe(
+        "A=1\nB='two words'\n"
+      );
+    });
+
+    it('should keep comments and order of an existing file', () => {
+      const existing = [
+        '# Database',
+        'export DB_URL=old',
+        '',
+        '# Removed remotely',
+        'STALE=1',
+        'API_KEY=old',
+        '',
+      ].join('\n');
+
+      expect(
+        formatEnvFile({ API_KEY: 'new', DB_URL: 'db', NEW: 'x' }, existing)
+      ).toBe(
+        [
+          '# Database',
+          'export DB_URL=db',
+          '',
+          '# Removed remotely',
+          'API_KEY=new',
+          'NEW=x',
+          '',
+        ].join('\n')
+      );
+    });
+
+    it('should replace multiline values as a whole', () => {
+      const existing = 'PEM="-----BEGIN-----\nabc\n-----END-----"\nAFTER=1\n';
+
+      expect(formatEnvFile({ PEM: 'short', AFTER: '2' }, existing)).toBe(
+        'PEM=short\nAFTER=2\n'
+      );
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { EnvFormatError, type EnvVars } from '../types/index.js';
+
+/** Values that dotenv reads back unchanged without quotes */
+const UNQUOTED_VALUE = /^[\w.,:/@+%-]*$/;
+
+/** Assignment line, optionally prefixed with `export` */
+const ASSIGNMENT = /^\s*(export\s+)?([\w.-]+)\s*=\s*(.*)$/;
+
+/** Block of lines in an existing env file */
+type EnvFileBlock =
+  | { kind: 'text'; line: string }
+  | { kind: 'assignment'; key: string; exported: boolean };
+
+/**
+ * Quote a value so that dotenv parses it back unchanged
+ * Prefers single quotes (no escape processing), then backticks, then
+ * double quotes. Multiline values are written across multiple lines.
+ * dotenv has no escapes besides `\n` and `\r` in double quotes, so a value
+ * that needs double quotes cannot contain `"` or a literal `\n`/`\r`.
+ * @param key Name of the variable, for the error message
+ * @throws {EnvFormatError} When no quoting reads the value back unchanged
+ */
+export function quoteEnvValue(value: string, key = 'value'): string {
+  if (value && UNQUOTED_VALUE.test(value)) {
+    return value;
+  }
+
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+
+  if (!value.includes('`')) {
+    return `\`${value}\``;
+  }
+
+  if (value.includes('"') || /\\[nr]/.test(value)) {
+    throw new EnvFormatError(
+      `Cannot write ${key} to an env file: it contains single quotes, backticks and a double quote or literal \\n/\\r, which dotenv cannot read back`,
+      key
+    );
+  }
+
+  return `"${value}"`;
+}
+
+/**
+ * Check whether a quoted value opened on this line is left unclosed
+ */
+function continuesOnNextLine(rawValue: string): boolean {
+  const quote = rawValue[0];
+  if (quote !== '"' && quote !== "'" && quote !== '`') {
+    return false;
+  }
+
+  return !rawValue.slice(1).includes(quote);
+}
+
+/**
+ * Split an env file into comment/blank lines and assignments
+ * Lines belonging to multiline quoted values are folded into their
+ * assignment.
+ */
+function parseEnvFileBlocks(content: string): EnvFileBlock[] {
+  const lines = content.split(/\r?\n/);
+  const blocks: EnvFileBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(ASSIGNMENT);
+    if (!match) {
+      blocks.push({ kind: 'text', line: lines[i] });
+      continue;
+    }
+
+    const [, exported, key, rawValue] = match;
+    if (continuesOnNextLine(rawValue)) {
+      // Skip continuation lines up to and including the closing quote
+      const quote = rawValue[0];
+      i++;
+      while (i < lines.length && !lines[i].includes(quote)) {
+        i++;
+      }
+    }
+
+    blocks.push({ kind: 'assignment', key, exported: Boolean(exported) });
+  }
+
+  return blocks;
+}
+
+/**
+ * Format variables as dotenv file content
+ * When existing content is given, its comments, blank lines and key order
+ * are kept: matching keys get their new values, keys that are no longer
+ * present are dropped and new keys are appended at the end.
+ * @param envVars Variables to write
+ * @param existing Content of the file being replaced
+ * @throws {EnvFormatError} When a value cannot be written so dotenv reads it back
+ */
+export function formatEnvFile(envVars: EnvVars, existing?: string): string {
+  const lines: string[] = [];
+  const written = new Set<string>();
+
+  for (const block of existing ? parseEnvFileBlocks(existing) : []) {
+    if (block.kind === 'text') {
+      lines.push(block.line);
+      continue;
+    }
+
+    if (block.key in envVars && !written.has(block.key)) {
+      const prefix = block.exported ? 'export ' : '';
+      lines.push(
+        `${prefix}${block.key}=${quoteEnvValue(envVars[block.key], block.key)}`
+      );
+      written.add(block.key);
+    }
+  }
+
+  // Drop the trailing empty line of the existing file before appending
+  while (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  for (const [key, value] of Object.entries(envVars)) {
+    if (!written.has(key)) {
+      lines.push(`${key}=${quoteEnvValue(value, key)}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, type Mock, mock } from 'bun:test';
+import { readFileSync } from 'node:fs';
+import { type EnvSchema, EnvValidationError } from '../types/index.js';
+import { checkEnvVars, loadEnvSchema, validateEnvVars } from './env-schema.js';
+
+await mock.module('node:fs', () => ({
+  readFileSync: mock(),
+}));
+
+const mockReadFileSync = readFileSync as unknown as Mock<typeof readFileSync>;
+
+describe('Env Schema', () => {
+  const schema: EnvSchema = {
+    PORT: { type: 'integer', required: true },
+    NODE_ENV: { enum: ['production', 'preview'] },
+    API_URL: { type: 'url', pattern: 'https://.*' },
+    SENTRY_DSN: { requiredIn: ['production'] },
+    DEBUG: { type: 'boolean' },
+  };
+
+  beforeEach(() => {
+    mockReadFileSync.mockReset();
+  });
+
+  it('should accept valid variables', () => {
+    const envVars = {
+      PORT: '3000',
+      NODE_ENV: 'production',
+      API_URL: 'https://api.example.com',
+      SENTRY_DSN: 'https://sentry.example.com/1',
+      DEBUG: 'false',
+    };
+
+    expect(checkEnvVars(envVars, schema, ['production'])).toEqual([]);
+  });
+
+  it('should report every violation without printing values', () => {
+    const envVars = {
+      NODE_ENV: 'staging',
+      API_URL: 'http://api.example.com',
+      DEBUG: 'yes',
+    };
+
+    expect(checkEnvVars(envVars, schema, ['Production'])).toEqual([
+      'PORT: is required',
+      'NODE_ENV: must be one of production, preview',
+      'API_URL: must match /https://.*/',
+      'SENTRY_DSN: is required for production',
+      'DEBUG: must be a boolean',
+    ]);
+  });
+
+  it('should only require per-target keys for those targets', () => {
+    expect(checkEnvVars({ PORT: '1' }, schema, ['preview'])).toEqual([]);
+  });
+
+  it('should not treat inherited properties as set variables', () => {
+    expect(
+      checkEnvVars({}, { constructor: { required: true } }, ['production'])
+    ).toEqual(['constructor: is required']);
+  });
+
+  it('should throw a validation error listing all violations', () => {
+    try {
+      validateEnvVars({ PORT: 'abc' }, schema, []);
+      throw new Error('expected an error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(EnvValidationError);
+      expect((error as EnvValidationError).violations).toEqual([
+        'PORT: must be an integer',
+      ]);
+      expect((error as Error).message).toBe(
+        'Environment variables do not match the schema:\n  PORT: must be an integer'
+      );
+    }
+  });
+
+  it('should load and validate schema files', () => {
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify({ PORT: { type: 'number' } })
+    );
+    expect(loadEnvSchema('.env.schema.json')).toEqual({
+      PORT: { type: 'number' },
+    });
+
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify({ PORT: { type: 'port' }, URL: { pattern: '(' } })
+    );
+    expect(() => loadEnvSchema('.env.schema.json')).toThrow(
+      'Invalid env schema .env.schema.json'
+    );
+  });
+});
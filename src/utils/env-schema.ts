@@ -0,0 +1,142 @@
+import { readFileSync } from 'node:fs';
+import { validateEnvSchema } from '../schemas/index.js';
+import {
+  ConfigError,
+  type EnvKeyRule,
+  type EnvSchema,
+  EnvValidationError,
+  type EnvValueType,
+  type EnvVars,
+} from '../types/index.js';
+
+/** Checks for each value type, with the violation message */
+const TYPE_CHECKS: Record<EnvValueType, [(value: string) => boolean, string]> =
+  {
+    string: [() => true, 'a string'],
+    number: [
+      value => value.trim() !== '' && !Number.isNaN(Number(value)),
+      'a number',
+    ],
+    integer: [value => /^-?\d+$/.test(value.trim()), 'an integer'],
+    boolean: [value => /^(true|false|1|0)$/i.test(value), 'a boolean'],
+    url: [
+      value => {
+        try {
+          new URL(value);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      'a URL',
+    ],
+    json: [
+      value => {
+        try {
+          JSON.parse(value);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      'valid JSON',
+    ],
+  };
+
+/**
+ * Load an env schema from a JSON file
+ * @throws {ConfigError} When the file cannot be read or is invalid
+ */
+export function loadEnvSchema(path: string): EnvSchema {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(
+      `Failed to load env schema ${path}: ${message}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return validateEnvSchema(data, path);
+}
+
+/**
+ * Check a present value against the rules of its key
+ * Violations never include the value, which may be a secret.
+ */
+function checkValue(key: string, value: string, rule: EnvKeyRule): string[] {
+  const violations: string[] = [];
+
+  if (rule.enum && !rule.enum.includes(value)) {
+    violations.push(`${key}: must be one of ${rule.enum.join(', ')}`);
+  }
+
+  if (rule.type) {
+    const [check, expected] = TYPE_CHECKS[rule.type];
+    if (!check(value)) {
+      violations.push(`${key}: must be ${expected}`);
+    }
+  }
+
+  if (rule.pattern && !new RegExp(`^(?:${rule.pattern})$`).test(value)) {
+    violations.push(`${key}: must match /${rule.pattern}/`);
+  }
+
+  return violations;
+}
+
+/**
+ * Check variables against an env schema
+ * @param targets Targets being pushed to, for per-target requirements
+ * @returns All violations, one message per problem
+ */
+export function checkEnvVars(
+  envVars: EnvVars,
+  schema: EnvSchema,
+  targets: string[]
+): string[] {
+  const violations: string[] = [];
+  const normalizedTargets = targets.map(target => target.toLowerCase());
+
+  for (const [key, rule] of Object.entries(schema)) {
+    if (Object.hasOwn(envVars, key)) {
+      violations.push(...checkValue(key, envVars[key], rule));
+      continue;
+    }
+
+    if (rule.required) {
+      violations.push(`${key}: is required`);
+      continue;
+    }
+
+    const missingIn = (rule.requiredIn ?? []).filter(target =>
+      normalizedTargets.includes(target.toLowerCase())
+    );
+    if (missingIn.length > 0) {
+      violations.push(`${key}: is required for ${missingIn.join(', ')}`);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Validate variables against an env schema before anything is pushed
+ * @param targets Targets being pushed to, for per-target requirements
+ * @throws {EnvValidationError} Listing every violation
+ */
+export function validateEnvVars(
+  envVars: EnvVars,
+  schema: EnvSchema,
+  targets: string[]
+): void {
+  const violations = checkEnvVars(envVars, schema, targets);
+  if (violations.length > 0) {
+    throw new EnvValidationError(
+      `Environment variables do not match the schema:\n  ${violations.join('\n  ')}`,
+      violations
+    );
+  }
+}
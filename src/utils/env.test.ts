@@ -3,7 +3,13 @@ import { readFileSync } from 'node:fs';
 import * as dotenv from 'dotenv';
 import { createTestEnvData, setupTestEnv } from '../test-utils/test-helpers.js';
 import type { EnvVars } from '../types/index.js';
-import { loadEnvVars, parseEnvFromStdin } from './env.js';
+import {
+  type EnvLayer,
+  formatEnvSources,
+  loadEnvVars,
+  mergeEnvLayers,
+  parseEnvFromStdin,
+} from './env.js';
 
 await mock.module('node:fs', () => ({
   readFileSync: mock(),
@@ -124,3 +130,38 @@ describe('Environment Utils', () => {
     });
   });
 });
+
+describe('Env Layers', () => {
+  const layers: EnvLayer[] = [
+    { source: '.env', envVars: { API_URL: 'http://localhost', DEBUG: 'true' } },
+    {
+      source: '.env.production',
+      envVars: { API_URL: 'https://api.example.com' },
+    },
+    { source: 'stdin', envVars: { API_URL: 'https://override', TOKEN: 't' } },
+  ];
+
+  it('should let later layers override earlier ones', () => {
+    const merged = mergeEnvLayers(layers);
+
+    expect(merged.envVars).toEqual({
+      API_URL: 'https://override',
+      DEBUG: 'true',
+      TOKEN: 't',
+    });
+    expect(merged.sources).toEqual({
+      API_URL: ['.env', '.env.production', 'stdin'],
+      DEBUG: ['.env'],
+      TOKEN: ['stdin'],
+    });
+  });
+
+  it('should report the source of each key', () => {
+    expect(formatEnvSources(mergeEnvLayers(layers))).toEqual([
+      'Variable sources:',
+      '  API_URL  stdin (overrides .env, .env.production)',
+      '  DEBUG    .env',
+      '  TOKEN    stdin',
+    ]);
+  });
+});
@@ -1,12 +1,14 @@
 import { readFileSync } from 'node:fs';
 import { parse } from 'dotenv';
 import { EnvLoadError, type EnvVars } from '../types/index.js';
+import { decryptEnvVars } from './dotenvx.js';
 
 /**
  * Load environment variables from a .env file
+ * Values encrypted with dotenvx are decrypted in-process.
  * @param envFile Path to the environment file
  * @returns Promise resolving to environment variables
- * @throws {EnvLoadError} When file cannot be loaded or parsed
+ * @throws {EnvLoadError} When file cannot be loaded, parsed or decrypted
  */
 export function loadEnvVars(envFile: string): Promise<EnvVars> {
   return Promise.resolve().then(() => {
@@ -20,7 +22,7 @@ export function loadEnvVars(envFile: string): Promise<EnvVars> {
         typedEnvVars[key] = String(value);
       }
 
-      return typedEnvVars;
+      return decryptEnvVars(typedEnvVars, envFile);
     } catch (error) {
       if (error instanceof EnvLoadError) {
         throw error;
@@ -52,3 +54,53 @@ export function parseEnvFromStdin(input: string): EnvVars {
 
   return typedEnvVars;
 }
+
+/** Variables from one source, e.g. an env file or stdin */
+export interface EnvLayer {
+  source: string;
+  envVars: EnvVars;
+}
+
+/** Merged variables together with the source each key came from */
+export interface MergedEnv {
+  envVars: EnvVars;
+  /** Sources defining each key, the winning (last) one at the end */
+  sources: Record<string, string[]>;
+}
+
+/**
+ * Merge variable layers, later layers overriding earlier ones
+ * @param layers Layers in order of increasing precedence
+ */
+export function mergeEnvLayers(layers: EnvLayer[]): MergedEnv {
+  const merged: MergedEnv = { envVars: {}, sources: {} };
+
+  for (const { source, envVars } of layers) {
+    for (const [key, value] of Object.entries(envVars)) {
+      merged.envVars[key] = value;
+      merged.sources[key] = [...(merged.sources[key] ?? []), source];
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Format which source each merged key came from
+ * @returns Output lines, one per key
+ */
+export function formatEnvSources(merged: MergedEnv): string[] {
+  const entries = Object.entries(merged.sources);
+  const width = Math.max(0, ...entries.map(([key]) => key.length));
+
+  return [
+    'Variable sources:',
+    ...entries.map(([key, sources]) => {
+      const winner = sources[sources.length - 1];
+      const overridden = sources.slice(0, -1);
+      const detail =
+        overridden.length > 0 ? ` (overrides ${overridden.join(', ')})` : '';
+      return `  ${key.padEnd(width)}  ${winner}${detail}`;
+    }),
+  ];
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import type { EnvVars } from '../types/index.js';
+import { mergeEnvLayers } from './env.js';
+import { expandEnvVars } from './expand.js';
+
+/** Merge variables as a single .env layer */
+function fromFile(envVars: EnvVars) {
+  return mergeEnvLayers([{ source: '.env', envVars }]);
+}
+
+describe('Env Expansion', () => {
+  it('should expand references to other keys in any order', () => {
+    const result = expandEnvVars(
+      fromFile({
+        API_URL: '${BASE_URL}/api',
+        BASE_URL: 'https://${HOST}',
+        HOST: 'example.com',
+      })
+    );
+
+    expect(result).toEqual({
+      API_URL: 'https://example.com/api',
+      BASE_URL: 'https://example.com',
+      HOST: 'example.com',
+    });
+    expect(Object.keys(result)).toEqual(['API_URL', 'BASE_URL', 'HOST']);
+  });
+
+  it('should use defaults for unset or empty names', () => {
+    const result = expandEnvVars(
+      fromFile({
+        EMPTY: '',
+        PORT: '${PORT_OVERRIDE:-3000}',
+        URL: 'http://${HOST:-${FALLBACK:-localhost}}:${PORT}',
+        NAME: '${EMPTY:-app}',
+      })
+    );
+
+    expect(result.PORT).toBe('3000');
+    expect(result.URL).toBe('http://localhost:3000');
+    expect(result.NAME).toBe('app');
+  });
+
+  it('should resolve references across layers', () => {
+    const merged = mergeEnvLayers([
+      { source: '.env', envVars: { URL: 'https://${HOST}' } },
+      { source: '.env.production', envVars: { HOST: 'prod.example.com' } },
+    ]);
+
+    expect(expandEnvVars(merged).URL).toBe('https://prod.example.com');
+  });
+
+  it('should fall back to the process environment only when given', () => {
+    const merged = fromFile({ HOME_DIR: '${HOME}' });
+
+    expect(
+      expandEnvVars(merged, { processEnv: { HOME: '/home/app' } }).HOME_DIR
+    ).toBe('/home/app');
+    expect(() => expandEnvVars(merged)).toThrow(
+      'Unresolved reference ${HOME} in HOME_DIR (.env)'
+    );
+  });
+
+  it('should prefer file values over the process environment', () => {
+    const result = expandEnvVars(fromFile({ HOST: 'file', URL: '${HOST}' }), {
+      processEnv: { HOST: 'process' },
+    });
+
+    expect(result.URL).toBe('file');
+  });
+
+  it('should keep escaped references literally', () => {
+    expect(expandEnvVars(fromFile({ TEMPLATE: '\\${NAME}' })).TEMPLATE).toBe(
+      '${NAME}'
+    );
+  });
+
+  it('should not resolve names inherited from Object.prototype', () => {
+    expect(() =>
+      expandEnvVars(fromFile({ A: 'x${constructor}y' }), { processEnv: {} })
+    ).toThrow('Unresolved reference ${constructor} in A (.env)');
+  });
+
+  it('should detect circular references', () => {
+    expect(() =>
+      expandEnvVars(fromFile({ A: '${B}', B: '${C}', C: '${A}' }))
+    ).toThrow('Circular reference: A -> B -> C -> A');
+  });
+
+  it('should name the file of an invalid reference', () => {
+    try {
+      expandEnvVars(fromFile({ BROKEN: '${OPEN' }));
+      throw new Error('expected an error');
+    } catch (error) {
+      expect((error as Error).message).toBe(
+        'Unterminated reference in BROKEN: ${OPEN'
+      );
+      expect((error as { envFile?: string }).envFile).toBe('.env');
+    }
+  });
+});
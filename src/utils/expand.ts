@@ -0,0 +1,135 @@
+import { EnvLoadError, type EnvVars } from '../types/index.js';
+import type { MergedEnv } from './env.js';
+
+/** Names that can be referenced, matching keys accepted in env files */
+const REFERENCE_NAME = /^[\w.-]+$/;
+
+/** Options for expanding references */
+export interface ExpandOptions {
+  /** Fallback for names not defined in the env files, e.g. process.env */
+  processEnv?: Record<string, string | undefined>;
+}
+
+/**
+ * Find the brace closing a reference, skipping nested references
+ * @returns Index of the closing brace, or -1 when there is none
+ */
+function findClosingBrace(value: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < value.length; i++) {
+    if (value[i] === '{') depth++;
+    if (value[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Expand `${VAR}` and `${VAR:-default}` references in merged variables
+ * References resolve against the other variables (after layering) and,
+ * when given, the process environment. The default is used when the name
+ * is unset or empty; `\${` is kept as a literal `${`.
+ * @param merged Merged variables, with sources used in error messages
+ * @returns Expanded variables in their original order
+ * @throws {EnvLoadError} When a reference is unresolved, invalid or circular
+ */
+export function expandEnvVars(
+  merged: MergedEnv,
+  options: ExpandOptions = {}
+): EnvVars {
+  const { envVars, sources } = merged;
+  const expanded = new Map<string, string>();
+  const resolving: string[] = [];
+
+  const sourceOf = (key: string) => sources[key]?.at(-1) ?? 'env';
+
+  // Own keys only, so that names like `constructor` are not inherited
+  const lookup = (name: string): string | undefined => {
+    if (Object.hasOwn(envVars, name)) {
+      return resolveKey(name);
+    }
+    const { processEnv } = options;
+    return processEnv && Object.hasOwn(processEnv, name)
+      ? processEnv[name]
+      : undefined;
+  };
+
+  const expandValue = (key: string, value: string): string => {
+    let result = '';
+    let i = 0;
+
+    while (i < value.length) {
+      if (value.startsWith('\\${', i)) {
+        result += '${';
+        i += 3;
+        continue;
+      }
+      if (!value.startsWith('${', i)) {
+        result += value[i++];
+        continue;
+      }
+
+      const end = findClosingBrace(value, i + 2);
+      if (end === -1) {
+        throw new EnvLoadError(
+          `Unterminated reference in ${key}: ${value.slice(i)}`,
+          sourceOf(key)
+        );
+      }
+
+      const body = value.slice(i + 2, end);
+      const separator = body.indexOf(':-');
+      const name = separator === -1 ? body : body.slice(0, separator);
+      if (!REFERENCE_NAME.test(name)) {
+        throw new EnvLoadError(
+          `Invalid reference \${${body}} in ${key}`,
+          sourceOf(key)
+        );
+      }
+
+      const resolved = lookup(name);
+      if (separator !== -1 && !resolved) {
+        result += expandValue(key, body.slice(separator + 2));
+      } else if (resolved === undefined) {
+        throw new EnvLoadError(
+          `Unresolved reference \${${name}} in ${key} (${sourceOf(key)})`,
+          sourceOf(key)
+        );
+      } else {
+        result += resolved;
+      }
+      i = end + 1;
+    }
+
+    return result;
+  };
+
+  const resolveKey = (key: string): string => {
+    const done = expanded.get(key);
+    if (done !== undefined) {
+      return done;
+    }
+
+    if (resolving.includes(key)) {
+      const cycle = [...resolving.slice(resolving.indexOf(key)), key];
+      throw new EnvLoadError(
+        `Circular reference: ${cycle.join(' -> ')}`,
+        sourceOf(key)
+      );
+    }
+
+    resolving.push(key);
+    const value = expandValue(key, envVars[key]);
+    resolving.pop();
+
+    expanded.set(key, value);
+    return value;
+  };
+
+  const result: EnvVars = {};
+  for (const key of Object.keys(envVars)) {
+    result[key] = resolveKey(key);
+  }
+  return result;
+}
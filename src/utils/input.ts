@@ -1,4 +1,5 @@
 import * as fs from 'node:fs';
+import { isMachineOutput } from './output.js';
 
 /**
  * Prompt user for input via TTY
@@ -8,7 +9,8 @@ import * as fs from 'node:fs';
  * @returns Promise resolving to user's trimmed input
  */
 export async function prompt(question: string): Promise<string> {
-  process.stdout.write(question);
+  // Keep stdout free for structured events
+  (isMachineOutput() ? process.stderr : process.stdout).write(question);
 
   // Try to read from /dev/tty for interactive input
   // This allows prompting even after stdin has been consumed by piped data
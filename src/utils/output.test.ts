@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, spyOn } from 'bun:test';
+import { ApplyError, ConfigError } from '../types/index.js';
+import {
+  emitError,
+  emitEvent,
+  flushEvents,
+  logOperation,
+  setOutputFormat,
+  toErrorInfo,
+  withDestination,
+} from './output.js';
+
+/** Capture what is written to stdout while fn runs */
+async function captureStdout(fn: () => unknown): Promise<string> {
+  let output = '';
+  const write = spyOn(process.stdout, 'write').mockImplementation(chunk => {
+    output += String(chunk);
+    return true;
+  });
+  const log = spyOn(console, 'log').mockImplementation(() => undefined);
+  try {
+    await fn();
+  } finally {
+    write.mockRestore();
+    log.mockRestore();
+  }
+  return output;
+}
+
+describe('Output', () => {
+  afterEach(() => {
+    flushEvents(true);
+    setOutputFormat('text');
+  });
+
+  it('should not write events in text format', async () => {
+    const output = await captureStdout(() => {
+      emitEvent({ type: 'env', count: 1, keys: ['A'] });
+      flushEvents(true);
+    });
+
+    expect(output).toBe('');
+  });
+
+  it('should stream ndjson events as they happen', async () => {
+    setOutputFormat('ndjson');
+
+    const output = await captureStdout(() =>
+      withDestination('web', async () => {
+        logOperation('create', 'A');
+        emitError(new ConfigError('bad'));
+      })
+    );
+
+    expect(
+      output
+        .trim()
+        .split('\n')
+        .map(line => JSON.parse(line))
+    ).toEqual([
+      {
+        type: 'operation',
+        destination: 'web',
+        key: 'A',
+        action: 'create',
+        status: 'ok',
+      },
+      { type: 'error', code: 'CONFIG_ERROR', message: 'bad' },
+    ]);
+  });
+
+  it('should write json events as one document when flushed', async () => {
+    setOutputFormat('json');
+
+    const output = await captureStdout(() => {
+      emitEvent({ type: 'env', count: 1, keys: ['A'] });
+      emitError(new ApplyError('failed', ['A'], ['B (denied)']));
+      flushEvents(false);
+    });
+
+    expect(JSON.parse(output)).toEqual({
+      ok: false,
+      events: [
+        { type: 'env', count: 1, keys: ['A'] },
+        {
+          type: 'error',
+          code: 'APPLY_FAILED',
+          message: 'failed',
+          reverted: ['A'],
+          unreverted: ['B (denied)'],
+        },
+      ],
+    });
+  });
+
+  it('should report unknown errors with a generic code', () => {
+    expect(toErrorInfo(new Error('boom'))).toEqual({
+      code: 'UNKNOWN_ERROR',
+      message: 'boom',
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  ApplyError,
+  DotenvPushError,
+  type OperationAction,
+  type OutputEvent,
+  type OutputFormat,
+} from '../types/index.js';
+
+/** Error code reported for errors that are not DotenvPushErrors */
+export const UNKNOWN_ERROR_CODE = 'UNKNOWN_ERROR';
+
+/** Log line prefix of each operation */
+const OPERATION_LABELS: Record<OperationAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  remove: 'Removed',
+  revert: 'Reverted',
+};
+
+let outputFormat: OutputFormat = 'text';
+
+/** Destination being applied, attached to operation events */
+let currentDestination: string | undefined;
+
+/** Events collected for the json format until they are flushed */
+const collected: OutputEvent[] = [];
+
+/**
+ * Select the output format for the rest of the run
+ */
+export function setOutputFormat(format: OutputFormat): void {
+  outputFormat = format;
+}
+
+/** Whether structured events are written instead of human-readable text */
+export function isMachineOutput(): boolean {
+  return outputFormat !== 'text';
+}
+
+/**
+ * Emit a structured event
+ * Events are written to stdout as they happen in the ndjson format,
+ * collected until flushEvents in the json format and ignored in text.
+ */
+export function emitEvent(event: OutputEvent): void {
+  if (outputFormat === 'ndjson') {
+    process.stdout.write(`${JSON.stringify(event)}\n`);
+  } else if (outputFormat === 'json') {
+    collected.push(event);
+  }
+}
+
+/**
+ * Write the events collected in the json format as a single document
+ * @param ok Whether the run finished without an error
+ */
+export function flushEvents(ok: boolean): void {
+  if (outputFormat === 'json') {
+    process.stdout.write(
+      `${JSON.stringify({ ok, events: collected }, null, 2)}\n`
+    );
+  }
+  collected.length = 0;
+}
+
+/**
+ * Run a function with operation events attributed to a destination
+ */
+export async function withDestination<T>(
+  destination: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const previous = currentDestination;
+  currentDestination = destination;
+  try {
+    return await fn();
+  } finally {
+    currentDestination = previous;
+  }
+}
+
+/**
+ * Log an operation performed on a remote variable and emit it as an event
+ */
+export function logOperation(action: OperationAction, key: string): void {
+  console.log(`${OPERATION_LABELS[action]} ${key}`);
+  emitEvent({
+    type: 'operation',
+    destination: currentDestination,
+    key,
+    action,
+    status: 'ok',
+  });
+}
+
+/**
+ * Emit an operation on a remote variable that failed
+ * The caller reports the failure to humans, typically as a warning.
+ */
+export function emitFailedOperation(
+  action: OperationAction,
+  key: string,
+  error: string
+): void {
+  emitEvent({
+    type: 'operation',
+    destination: currentDestination,
+    key,
+    action,
+    status: 'failed',
+    error,
+  });
+}
+
+/**
+ * Describe an error by its DotenvPushError code and message
+ */
+export function toErrorInfo(error: unknown): { code: string; message: string } {
+  return {
+    code: error instanceof DotenvPushError ? error.code : UNKNOWN_ERROR_CODE,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Emit the error that ended the run, including the keys reverted after a
+ * failed apply
+ */
+export function emitError(error: unknown): void {
+  const revert =
+    error instanceof ApplyError
+      ? { reverted: error.reverted, unreverted: error.unreverted }
+      : {};
+  emitEvent({ type: 'error', ...toErrorInfo(error), ...revert });
+}
+
+/**
+ * Run a function while console.log writes to stderr
+ * Keeps stdout free for machine-readable output.
+ */
+export async function withLogsOnStderr<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = console.error;
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+}
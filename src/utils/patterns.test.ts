@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  compilePattern,
+  matchesAny,
+  splitList,
+  splitTargets,
+} from './patterns.js';
+
+describe('Pattern Utils', () => {
+  describe('compilePattern', () => {
+    it('should match globs against the whole key', () => {
+      expect(compilePattern('NEXT_PUBLIC_*').test('NEXT_PUBLIC_URL')).toBe(
+        true
+      );
+      expect(compilePattern('NEXT_PUBLIC_*').test('MY_NEXT_PUBLIC_URL')).toBe(
+        false
+      );
+      expect(compilePattern('*_KEY?').test('API_KEYS')).toBe(true);
+    });
+
+    it('should treat other characters literally', () => {
+      expect(compilePattern('A.B').test('AXB')).toBe(false);
+      expect(compilePattern('A.B').test('A.B')).toBe(true);
+    });
+
+    it('should compile slash-wrapped patterns as regular expressions', () => {
+      expect(compilePattern('/^stripe_/i').test('STRIPE_KEY')).toBe(true);
+      expect(compilePattern('/PASSWORD/').test('DB_PASSWORD_HASH')).toBe(true);
+    });
+
+    it('should reject invalid regular expressions', () => {
+      expect(() => compilePattern('/(/')).toThrow('Invalid key pattern /(/');
+    });
+  });
+
+  describe('matchesAny', () => {
+    it('should match if any pattern matches', () => {
+      expect(matchesAny('DB_URL', ['*_KEY', '*_URL'])).toBe(true);
+      expect(matchesAny('DB_URL', [])).toBe(false);
+    });
+  });
+
+  describe('splitList', () => {
+    it('should split and trim comma-separated values', () => {
+      expect(splitList(' A, B ,,C')).toEqual(['A', 'B', 'C']);
+      expect(splitList(undefined)).toEqual([]);
+    });
+  });
+
+  describe('splitTargets', () => {
+    it('should split target lists on commas and plus signs', () => {
+      expect(splitTargets('preview, development')).toEqual([
+        'preview',
+        'development',
+      ]);
+      expect(splitTargets('preview+development')).toEqual([
+        'preview',
+        'development',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { ConfigError } from '../types/index.js';
+
+/** Regex pattern written as /source/flags */
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Compile a key pattern
+ * Patterns wrapped in slashes (`/^STRIPE_/i`) are regular expressions;
+ * anything else is a glob matched against the whole key, where `*`
+ * matches any characters and `?` a single character.
+ * @throws {ConfigError} When a regular expression is invalid
+ */
+export function compilePattern(pattern: string): RegExp {
+  const regex = pattern.match(REGEX_PATTERN);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]);
+    } catch (error) {
+      throw new ConfigError(
+        `Invalid key pattern ${pattern}`,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a key matches any of the given patterns
+ */
+export function matchesAny(key: string, patterns: string[]): boolean {
+  return patterns.some(pattern => compilePattern(pattern).test(key));
+}
+
+/**
+ * Split a comma-separated CLI list, ignoring empty entries
+ */
+export function splitList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Split a target list such as `preview,development`
+ * `+` separates targets too, so lists fit into comma-separated `--to` specs
+ * (`vercel:preview+development`).
+ */
+export function splitTargets(value: string): string[] {
+  return value
+    .split(/[,+]/)
+    .map(target => target.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  computePlan,
+  filterChanges,
+  fingerprint,
+  formatPlan,
+  hasChanges,
+  overwriteUnknown,
+} from './plan.js';
+
+describe('Plan Utils', () => {
+  describe('computePlan', () => {
+    it('should plan creates, updates and removals', () => {
+      const plan = computePlan({ NEW: 'new', CHANGED: 'after' }, [
+        { key: 'CHANGED', value: 'before', id: '1' },
+        { key: 'STALE', value: 'old', id: '2' },
+      ]);
+
+      expect(plan.changes).toEqual([
+        { key: 'NEW', action: 'create', value: 'new', current: undefined },
+        {
+          key: 'CHANGED',
+          action: 'update',
+          value: 'after',
+          current: { key: 'CHANGED', value: 'before', id: '1' },
+        },
+        {
+          key: 'STALE',
+          action: 'remove',
+          current: { key: 'STALE', value: 'old', id: '2' },
+        },
+      ]);
+    });
+
+    it('should mark identical values as unchanged', () => {
+      const plan = computePlan({ SAME: 'value' }, [
+        { key: 'SAME', value: 'value' },
+      ]);
+
+      expect(plan.changes[0].action).toBe('unchanged');
+    });
+
+    it('should plan keys whose remote value is unknown as unknown', () => {
+      const plan = computePlan({ KEY: 'value' }, [{ key: 'KEY' }]);
+
+      expect(plan.changes[0].action).toBe('unknown');
+      expect(hasChanges(plan)).toBe(false);
+      expect(overwriteUnknown(plan).changes[0].action).toBe('update');
+    });
+
+    it('should keep remote-only keys when not pruning', () => {
+      const plan = computePlan({ KEY: 'value' }, [{ key: 'STALE' }], {
+        prune: false,
+      });
+
+      expect(plan.changes.map(change => change.key)).toEqual(['KEY']);
+    });
+
+    it('should remove duplicate remote records for the same key', () => {
+      const plan = computePlan({ KEY: 'value' }, [
+        { key: 'KEY', id: '1', value: 'old' },
+        { key: 'KEY', id: '2', value: 'other' },
+      ]);
+
+      expect(plan.changes.map(change => change.action)).toEqual([
+        'update',
+        'remove',
+      ]);
+      expect(plan.changes[1].current?.id).toBe('2');
+    });
+  });
+
+  describe('filterChanges', () => {
+    it('should return changes with the given actions', () => {
+      const plan = computePlan({ A: 'a', B: 'b' }, [
+        { key: 'B', value: 'b' },
+        { key: 'C' },
+      ]);
+
+      expect(filterChanges(plan, 'create', 'remove').map(c => c.key)).toEqual([
+        'A',
+        'C',
+      ]);
+    });
+  });
+
+  describe('hasChanges', () => {
+    it('should ignore unchanged keys', () => {
+      expect(
+        hasChanges(computePlan({ A: 'a' }, [{ key: 'A', value: 'a' }]))
+      ).toBe(false);
+      expect(
+        hasChanges(computePlan({ A: 'b' }, [{ key: 'A', value: 'a' }]))
+      ).toBe(true);
+    });
+  });
+
+  describe('fingerprint', () => {
+    it('should mask values with a short hash keyed per run', () => {
+      expect(fingerprint('secret')).toMatch(/^hmac:[0-9a-f]{8}$/);
+      expect(fingerprint('secret')).toBe(fingerprint('secret'));
+      expect(fingerprint('secret')).not.toBe(fingerprint('other'));
+    });
+
+    it('should mark unknown values', () => {
+      expect(fingerprint(undefined)).toBe('unknown');
+    });
+  });
+
+  describe('formatPlan', () => {
+    it('should print one line per key and a summary', () => {
+      const plan = computePlan(
+        { NEW: 'a', CHANGED: 'b', SAME: 'c', SECRET: 'd' },
+        [
+          { key: 'CHANGED', value: 'old' },
+          { key: 'SAME', value: 'c' },
+          { key: 'SECRET' },
+          { key: 'GONE' },
+        ]
+      );
+
+      expect(formatPlan(plan)).toEqual([
+        `  + NEW      ${fingerprint('a')}`,
+        `  ~ CHANGED  ${fingerprint('old')} -> ${fingerprint('b')}`,
+        '  = SAME',
+        '  ? SECRET   unknown (pass --overwrite-unknown to push)',
+        '  - GONE     unknown',
+        '\n1 to add, 1 to update, 1 to remove, 1 unchanged',
+        '1 not compared because their remote values cannot be read',
+      ]);
+    });
+
+    it('should list the keys per storage type', () => {
+      const plan = {
+        changes: [
+          {
+            key: 'API_KEY',
+            action: 'create' as const,
+            value: 'a',
+            type: 'sensitive',
+          },
+          {
+            key: 'URL',
+            action: 'unchanged' as const,
+            value: 'b',
+            type: 'plain',
+          },
+          {
+            key: 'TOKEN',
+            action: 'create' as const,
+            value: 'c',
+            type: 'sensitive',
+          },
+          { key: 'GONE', action: 'remove' as const, type: 'plain' },
+        ],
+      };
+
+      expect(formatPlan(plan).slice(4, 7)).toEqual([
+        '\nVariable types:',
+        '  sensitive  API_KEY, TOKEN',
+        '  plain      URL',
+      ]);
+    });
+  });
+});
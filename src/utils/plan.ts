@@ -0,0 +1,179 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import type {
+  EnvVars,
+  PlanAction,
+  PlanChange,
+  PushPlan,
+  RemoteEnvVar,
+} from '../types/index.js';
+
+/**
+ * Compute the changes needed to make the remote state match envVars
+ * Keys whose remote value cannot be read are planned as unknown, and
+ * duplicate remote records for the same key are planned as removals.
+ * @param envVars Variables to push
+ * @param current Variables currently stored by the provider
+ * @param options.prune Whether remote-only keys are planned as removals
+ * @returns Plan with one change per key, local keys first
+ */
+export function computePlan(
+  envVars: EnvVars,
+  current: RemoteEnvVar[],
+  options: { prune?: boolean } = {}
+): PushPlan {
+  const currentByKey = new Map<string, RemoteEnvVar>();
+  for (const env of current) {
+    if (!currentByKey.has(env.key)) {
+      currentByKey.set(env.key, env);
+    }
+  }
+  const changes: PlanChange[] = [];
+
+  for (const [key, value] of Object.entries(envVars)) {
+    const existing = currentByKey.get(key);
+    let action: PlanAction = 'create';
+    if (existing && existing.value === undefined) {
+      action = 'unknown';
+    } else if (existing) {
+      action = existing.value === value ? 'unchanged' : 'update';
+    }
+    changes.push({ key, action, value, current: existing });
+  }
+
+  if (options.prune === false) {
+    return { changes };
+  }
+
+  const matched = new Set(changes.map(change => change.current));
+  for (const env of current) {
+    if (!matched.has(env)) {
+      changes.push({ key: env.key, action: 'remove', current: env });
+    }
+  }
+
+  return { changes };
+}
+
+/**
+ * Get the changes of a plan with the given actions
+ */
+export function filterChanges(
+  plan: PushPlan,
+  ...actions: PlanAction[]
+): PlanChange[] {
+  return plan.changes.filter(change => actions.includes(change.action));
+}
+
+/**
+ * Check whether applying a plan would change anything
+ * Keys whose remote value is unknown do not count.
+ */
+export function hasChanges(plan: PushPlan): boolean {
+  return plan.changes.some(
+    change => change.action !== 'unchanged' && change.action !== 'unknown'
+  );
+}
+
+/**
+ * Plan keys whose remote value is unknown as updates, so they are pushed
+ */
+export function overwriteUnknown(plan: PushPlan): PushPlan {
+  return {
+    changes: plan.changes.map(
+      (change): PlanChange =>
+        change.action === 'unknown' ? { ...change, action: 'update' } : change
+    ),
+  };
+}
+
+/** Key of the value fingerprints, new for every run */
+const FINGERPRINT_KEY = randomBytes(32);
+
+/**
+ * Mask a value as a short fingerprint that is stable within one run
+ * Lets users see that a value changed without printing the value itself.
+ * The fingerprint is keyed per run, so logged fingerprints cannot be
+ * matched against hashes of guessed values.
+ */
+export function fingerprint(value: string | undefined): string {
+  if (value === undefined) {
+    return 'unknown';
+  }
+
+  const hash = createHmac('sha256', FINGERPRINT_KEY)
+    .update(value)
+    .digest('hex');
+  return `hmac:${hash.slice(0, 8)}`;
+}
+
+const ACTION_SYMBOLS: Record<PlanAction, string> = {
+  create: '+',
+  update: '~',
+  remove: '-',
+  unchanged: '=',
+  unknown: '?',
+};
+
+/**
+ * Group the pushed keys of a plan by the type they are stored as
+ * @returns Lines listing the keys per type, empty when the provider has no types
+ */
+function formatTypes(plan: PushPlan): string[] {
+  const keysByType = new Map<string, string[]>();
+  for (const { key, type, action } of plan.changes) {
+    if (type && action !== 'remove') {
+      keysByType.set(type, [...(keysByType.get(type) ?? []), key]);
+    }
+  }
+
+  if (keysByType.size === 0) {
+    return [];
+  }
+
+  const width = Math.max(...[...keysByType.keys()].map(type => type.length));
+  return [
+    '\nVariable types:',
+    ...[...keysByType].map(
+      ([type, keys]) => `  ${type.padEnd(width)}  ${keys.join(', ')}`
+    ),
+  ];
+}
+
+/**
+ * Format a plan as a per-key diff with masked values
+ * @returns Output lines, one per key followed by the keys per storage type
+ * (when the provider has types) and a summary line
+ */
+export function formatPlan(plan: PushPlan): string[] {
+  const width = Math.max(0, ...plan.changes.map(({ key }) => key.length));
+
+  const lines = plan.changes.map(({ key, action, value, current }) => {
+    const label = `  ${ACTION_SYMBOLS[action]} ${key.padEnd(width)}`;
+    switch (action) {
+      case 'create':
+        return `${label}  ${fingerprint(value)}`;
+      case 'update':
+        return `${label}  ${fingerprint(current?.value)} -> ${fingerprint(value)}`;
+      case 'remove':
+        return `${label}  ${fingerprint(current?.value)}`;
+      case 'unknown':
+        return `${label}  unknown (pass --overwrite-unknown to push)`;
+      default:
+        return label.trimEnd();
+    }
+  });
+
+  lines.push(...formatTypes(plan));
+
+  const count = (action: PlanAction) => filterChanges(plan, action).length;
+  lines.push(
+    `\n${count('create')} to add, ${count('update')} to update, ${count('remove')} to remove, ${count('unchanged')} unchanged`
+  );
+  if (count('unknown') > 0) {
+    lines.push(
+      `${count('unknown')} not compared because their remote values cannot be read`
+    );
+  }
+
+  return lines;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  getRetryAfterMs,
+  isRetryableError,
+  mapWithConcurrency,
+  type RetryOptions,
+  withRetry,
+} from './retry.js';
+
+/** Create an error shaped like a Vercel SDK HTTP error */
+function httpError(statusCode: number, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${statusCode}`), {
+    statusCode,
+    headers: new Headers(headers),
+  });
+}
+
+/** Retry options that record delays instead of waiting */
+function createOptions(maxAttempts = 4) {
+  const delays: number[] = [];
+  const options: RetryOptions = {
+    maxAttempts,
+    baseDelayMs: 100,
+    maxDelayMs: 1000,
+    sleep: async ms => {
+      delays.push(ms);
+    },
+  };
+  return { options, delays };
+}
+
+describe('isRetryableError', () => {
+  it('should retry rate limits, server errors and connection failures', () => {
+    const connection = Object.assign(new Error('reset'), {
+      name: 'ConnectionError',
+    });
+
+    expect(isRetryableError(httpError(429))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(connection)).toBe(true);
+    expect(isRetryableError(httpError(403))).toBe(false);
+    expect(isRetryableError(new Error('bad input'))).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+
+  it('should read Retry-After in seconds or as a date', () => {
+    expect(getRetryAfterMs(httpError(429, { 'retry-after': '3' }), now)).toBe(
+      3000
+    );
+    expect(
+      getRetryAfterMs(
+        httpError(429, { 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' }),
+        now
+      )
+    ).toBe(5000);
+  });
+
+  it('should fall back to the rate limit reset time', () => {
+    const reset = String(now / 1000 + 2);
+
+    expect(
+      getRetryAfterMs(httpError(429, { 'x-ratelimit-reset': reset }), now)
+    ).toBe(2000);
+    expect(getRetryAfterMs(httpError(429), now)).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry with exponential backoff until a call succeeds', async () => {
+    const { options, delays } = createOptions();
+    const fn = mock(async () => 'ok');
+    fn.mockRejectedValueOnce(httpError(502));
+    fn.mockRejectedValueOnce(httpError(502));
+
+    expect(await withRetry(fn, options, 'Listing')).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(delays).toEqual([100, 200]);
+  });
+
+  it('should honor Retry-After up to the maximum delay', async () => {
+    const { options, delays } = createOptions();
+    const fn = mock(async () => 'ok');
+    fn.mockRejectedValueOnce(httpError(429, { 'retry-after': '0' }));
+    fn.mockRejectedValueOnce(httpError(429, { 'retry-after': '60' }));
+
+    await withRetry(fn, options, 'Listing');
+
+    expect(delays).toEqual([0, 1000]);
+  });
+
+  it('should give up after the maximum attempts', async () => {
+    const { options } = createOptions(2);
+    const error = httpError(500);
+    const fn = mock(async () => {
+      throw error;
+    });
+
+    await expect(withRetry(fn, options, 'Listing')).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry client errors', async () => {
+    const { options } = createOptions();
+    const fn = mock(async () => {
+      throw httpError(400);
+    });
+
+    await expect(withRetry(fn, options, 'Listing')).rejects.toThrow('HTTP 400');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should keep at most limit calls in flight', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async n => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+      return n * 2;
+    });
+
+    expect(results).toEqual([2, 4, 6, 8, 10]);
+    expect(peak).toBe(2);
+  });
+
+  it('should stop starting calls after a failure', async () => {
+    const started: number[] = [];
+
+    const result = mapWithConcurrency([1, 2, 3, 4], 1, async n => {
+      started.push(n);
+      if (n === 2) {
+        throw new Error('failed');
+      }
+    });
+
+    await expect(result).rejects.toThrow('failed');
+    expect(started).toEqual([1, 2]);
+  });
+});
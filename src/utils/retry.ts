@@ -0,0 +1,160 @@
+/** How failed requests are retried */
+export interface RetryOptions {
+  /** Attempts per request, including the first */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for every further retry */
+  baseDelayMs: number;
+  /** Upper bound for any delay, including one requested by the server */
+  maxDelayMs: number;
+  /** Waits between attempts; replaceable in tests */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/** Default number of per-variable requests in flight at once */
+export const DEFAULT_CONCURRENCY = 4;
+
+/** Client errors raised before a response, which are worth retrying */
+const TRANSIENT_ERROR_NAMES = ['ConnectionError', 'RequestTimeoutError'];
+
+/** HTTP response details attached to SDK errors */
+interface HttpErrorLike {
+  statusCode?: number;
+  headers?: { get(name: string): string | null };
+}
+
+/**
+ * Get the HTTP status code of a failed request, if it got a response
+ */
+export function getStatusCode(error: unknown): number | undefined {
+  const { statusCode } = (error ?? {}) as HttpErrorLike;
+  return typeof statusCode === 'number' ? statusCode : undefined;
+}
+
+/**
+ * Check whether a failed request may succeed when repeated
+ * Rate limits (429), server errors (5xx) and connection failures are
+ * retried; other client errors are not.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  const statusCode = getStatusCode(error);
+  if (statusCode !== undefined) {
+    return statusCode === 429 || statusCode >= 500;
+  }
+  return TRANSIENT_ERROR_NAMES.includes(error.name);
+}
+
+/**
+ * Read the delay requested by the server from Retry-After (seconds or an
+ * HTTP date) or X-RateLimit-Reset (epoch seconds)
+ * @returns The delay in milliseconds, or undefined when none was sent
+ */
+export function getRetryAfterMs(
+  error: unknown,
+  now = Date.now()
+): number | undefined {
+  const headers = (error as HttpErrorLike | undefined)?.headers;
+  if (typeof headers?.get !== 'function') {
+    return undefined;
+  }
+
+  const retryAfter = headers.get('retry-after')?.trim();
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const until = Number.isNaN(seconds)
+      ? Date.parse(retryAfter)
+      : now + seconds * 1000;
+    if (!Number.isNaN(until)) {
+      return Math.max(0, until - now);
+    }
+  }
+
+  const reset = Number(headers.get('x-ratelimit-reset'));
+  if (reset > 0) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Run a request, retrying retryable failures with exponential backoff
+ * A delay requested by the server takes the place of the backoff.
+ * @param description What the request does, for the retry warnings
+ * @returns The result of the first successful attempt
+ * @throws The error of the last attempt, or the first non-retryable one
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  description: string
+): Promise<T> {
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const backoff = options.baseDelayMs * 2 ** (attempt - 1);
+      const delay = Math.min(
+        getRetryAfterMs(error) ?? backoff,
+        options.maxDelayMs
+      );
+      const reason = error instanceof Error ? error.message : String(error);
+      console.warn(
+        `Warning: ${description} failed (${reason}); retrying in ${delay}ms (attempt ${attempt + 1} of ${options.maxAttempts})`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run fn for every item with at most `limit` calls in flight
+ * After a failure no further items are started; calls already in flight
+ * are awaited before the first error is rethrown.
+ * @returns The results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, mock } from 'bun:test';
+import { createMemoryFs } from '../test-utils/test-helpers.js';
+import { SnapshotError } from '../types/index.js';
+import {
+  getSnapshotKeyFile,
+  listSnapshots,
+  loadSnapshot,
+  SNAPSHOT_KEY_ENV,
+  saveSnapshot,
+} from './snapshot.js';
+
+const { files, fs } = createMemoryFs();
+await mock.module('node:fs', () => fs);
+
+const DIR = '/repo/.dotenv-push/snapshots';
+const CONFIG_DIR = '/home/user/.config';
+
+describe('Snapshots', () => {
+  const state = {
+    destination: 'vercel:production',
+    provider: 'vercel',
+    target: 'production',
+    identity: 'vercel:team_1/prj_1:production',
+    vars: [
+      { key: 'API_KEY', value: 'secret', id: 'env-1', type: 'encrypted' },
+      { key: 'WRITE_ONLY', id: 'env-2', type: 'sensitive' },
+    ],
+  };
+
+  const previousConfigDir = process.env.XDG_CONFIG_HOME;
+
+  beforeEach(() => {
+    files.clear();
+    delete process.env[SNAPSHOT_KEY_ENV];
+    process.env.XDG_CONFIG_HOME = CONFIG_DIR;
+  });
+
+  afterEach(() => {
+    delete process.env[SNAPSHOT_KEY_ENV];
+    if (previousConfigDir === undefined) {
+      delete process.env.XDG_CONFIG_HOME;
+    } else {
+      process.env.XDG_CONFIG_HOME = previousConfigDir;
+    }
+  });
+
+  it('should save snapshots encrypted and load them back', () => {
+    const saved = saveSnapshot(DIR, state);
+
+    const content = files.get(`${DIR}/${saved.id}.json`) ?? '';
+    expect(content).not.toContain('secret');
+    expect(content).not.toContain('API_KEY');
+    expect(files.get(`${DIR}/.gitignore`)).toBe('*\n');
+    // The key is kept out of the snapshot directory
+    expect(getSnapshotKeyFile()).toBe(`${CONFIG_DIR}/dotenv-push/snapshot.key`);
+    expect(files.get(getSnapshotKeyFile())).toMatch(/^[0-9a-f]{64}\n$/);
+    expect(files.has(`${DIR}/snapshot.key`)).toBe(false);
+
+    expect(loadSnapshot(DIR, saved.id)).toEqual(saved);
+  });
+
+  it('should list snapshots newest first without decrypting them', () => {
+    const first = saveSnapshot(DIR, state);
+    const file = JSON.parse(files.get(`${DIR}/${first.id}.json`) ?? '');
+    files.set(
+      `${DIR}/${first.id}.json`,
+      JSON.stringify({ ...file, createdAt: '2020-01-01T00:00:00.000Z' })
+    );
+    const second = saveSnapshot(DIR, { ...state, target: 'preview' });
+
+    expect(listSnapshots(DIR).map(info => info.id)).toEqual([
+      second.id,
+      first.id,
+    ]);
+    expect(listSnapshots(DIR)[0]).toEqual({
+      id: second.id,
+      createdAt: second.createdAt,
+      destination: 'vercel:production',
+      provider: 'vercel',
+      target: 'preview',
+      identity: 'vercel:team_1/prj_1:production',
+      count: 2,
+    });
+    expect(listSnapshots('/missing')).toEqual([]);
+  });
+
+  it('should use the key from the environment', () => {
+    process.env[SNAPSHOT_KEY_ENV] = 'a'.repeat(64);
+    const saved = saveSnapshot(DIR, state);
+
+    expect(files.has(getSnapshotKeyFile())).toBe(false);
+
+    process.env[SNAPSHOT_KEY_ENV] = 'b'.repeat(64);
+    expect(() => loadSnapshot(DIR, saved.id)).toThrow(
+      `Failed to decrypt snapshot ${saved.id}`
+    );
+  });
+
+  it('should reject invalid keys and unknown snapshots', () => {
+    process.env[SNAPSHOT_KEY_ENV] = 'not-hex';
+
+    expect(() => saveSnapshot(DIR, state)).toThrow(SnapshotError);
+    expect(() => loadSnapshot(DIR, 'missing')).toThrow(
+      `Snapshot missing not found in ${DIR}`
+    );
+  });
+});
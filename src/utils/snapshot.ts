@@ -0,0 +1,223 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  randomUUID,
+} from 'node:crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { type RemoteEnvVar, SnapshotError } from '../types/index.js';
+
+/** Snapshot directory, relative to the config file or working directory */
+export const DEFAULT_SNAPSHOT_DIR = '.dotenv-push/snapshots';
+
+/** Environment variable holding the snapshot encryption key (hex) */
+export const SNAPSHOT_KEY_ENV = 'DOTENV_PUSH_SNAPSHOT_KEY';
+
+/**
+ * Get the key file used when no key is set
+ * It lives in the user config directory rather than next to the snapshots,
+ * so that reading the snapshots does not give access to the key.
+ */
+export function getSnapshotKeyFile(): string {
+  const configDir = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
+  return join(configDir, 'dotenv-push', 'snapshot.key');
+}
+
+const CIPHER = 'aes-256-gcm';
+
+/** Describes where a snapshot was taken, stored unencrypted */
+export interface SnapshotInfo {
+  id: string;
+  createdAt: string;
+  /** Destination name as given on the command line */
+  destination: string;
+  provider: string;
+  target?: string;
+  /** Resolved destination, see getDestinationIdentity */
+  identity: string;
+  /** Number of variables in the snapshot */
+  count: number;
+}
+
+/** Remote state of one destination before a push */
+export interface Snapshot extends SnapshotInfo {
+  vars: RemoteEnvVar[];
+}
+
+/** Snapshot as written to disk, with the variables encrypted */
+interface SnapshotFile extends SnapshotInfo {
+  version: 1;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/**
+ * Get the encryption key from the environment or the key file, creating
+ * the key file on first use
+ * @throws {SnapshotError} When the key is not 32 bytes of hex
+ */
+function getSnapshotKey(create: boolean): Buffer {
+  let hex = process.env[SNAPSHOT_KEY_ENV];
+
+  const keyFile = getSnapshotKeyFile();
+  if (!hex && existsSync(keyFile)) {
+    hex = readFileSync(keyFile, 'utf-8').trim();
+  }
+  if (!hex && create) {
+    hex = randomBytes(32).toString('hex');
+    mkdirSync(dirname(keyFile), { recursive: true, mode: 0o700 });
+    writeFileSync(keyFile, `${hex}\n`, { mode: 0o600 });
+  }
+
+  const key = Buffer.from(hex ?? '', 'hex');
+  if (key.length !== 32) {
+    throw new SnapshotError(
+      `Snapshot key must be 32 bytes of hex. Set ${SNAPSHOT_KEY_ENV} or check ${keyFile}.`
+    );
+  }
+  return key;
+}
+
+/**
+ * Create the snapshot directory, keeping it out of version control
+ */
+function ensureSnapshotDir(dir: string): void {
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, '.gitignore'), '*\n');
+  }
+}
+
+/**
+ * Save the remote state of a destination, encrypted with AES-256-GCM
+ * @returns The saved snapshot
+ * @throws {SnapshotError} When the snapshot cannot be written
+ */
+export function saveSnapshot(
+  dir: string,
+  state: Pick<
+    Snapshot,
+    'destination' | 'provider' | 'target' | 'identity' | 'vars'
+  >
+): Snapshot {
+  const createdAt = new Date().toISOString();
+  const snapshot: Snapshot = {
+    id: `${createdAt.replace(/[-:.]/g, '').slice(0, 15)}-${randomUUID().slice(0, 8)}`,
+    createdAt,
+    ...state,
+    count: state.vars.length,
+  };
+
+  try {
+    ensureSnapshotDir(dir);
+    const key = getSnapshotKey(true);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const data = Buffer.concat([
+      cipher.update(JSON.stringify(snapshot.vars), 'utf-8'),
+      cipher.final(),
+    ]);
+
+    const file: SnapshotFile = {
+      version: 1,
+      ...toInfo(snapshot),
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    writeFileSync(join(dir, `${snapshot.id}.json`), JSON.stringify(file), {
+      mode: 0o600,
+    });
+  } catch (error) {
+    if (error instanceof SnapshotError) {
+      throw error;
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SnapshotError(
+      `Failed to save snapshot: ${message}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  return snapshot;
+}
+
+/**
+ * Get the unencrypted description of a snapshot
+ */
+function toInfo(snapshot: SnapshotInfo): SnapshotInfo {
+  const { id, createdAt, destination, provider, target, identity, count } =
+    snapshot;
+  return { id, createdAt, destination, provider, target, identity, count };
+}
+
+/**
+ * Read a snapshot file without decrypting it
+ */
+function readSnapshotFile(dir: string, id: string): SnapshotFile {
+  return JSON.parse(readFileSync(join(dir, `${id}.json`), 'utf-8'));
+}
+
+/**
+ * List the snapshots in a directory, newest first
+ */
+export function listSnapshots(dir: string): SnapshotInfo[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  return readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => toInfo(readSnapshotFile(dir, name.slice(0, -'.json'.length))))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Load and decrypt a snapshot
+ * @throws {SnapshotError} When the snapshot does not exist or cannot be
+ * decrypted with the current key
+ */
+export function loadSnapshot(dir: string, id: string): Snapshot {
+  if (!existsSync(join(dir, `${id}.json`))) {
+    throw new SnapshotError(`Snapshot ${id} not found in ${dir}`);
+  }
+
+  const file = readSnapshotFile(dir, id);
+  if (file.version !== 1) {
+    throw new SnapshotError(
+      `Snapshot ${id} has unsupported version ${file.version}`
+    );
+  }
+
+  const { iv, tag, data } = file;
+  try {
+    const decipher = createDecipheriv(
+      CIPHER,
+      getSnapshotKey(false),
+      Buffer.from(iv, 'base64')
+    );
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    const plain = Buffer.concat([
+      decipher.update(Buffer.from(data, 'base64')),
+      decipher.final(),
+    ]);
+    return { ...toInfo(file), vars: JSON.parse(plain.toString('utf-8')) };
+  } catch (error) {
+    if (error instanceof SnapshotError) {
+      throw error;
+    }
+    throw new SnapshotError(
+      `Failed to decrypt snapshot ${id}. Was it saved with a different ${SNAPSHOT_KEY_ENV}?`,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
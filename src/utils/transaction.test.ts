@@ -0,0 +1,70 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { ApplyError } from '../types/index.js';
+import { withTransaction } from './transaction.js';
+
+describe('withTransaction', () => {
+  it('should return the result when nothing fails', async () => {
+    const revert = mock(() => Promise.resolve());
+
+    const result = await withTransaction(async transaction => {
+      transaction.record('A', revert);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(revert).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow the original error when nothing was applied', async () => {
+    const error = new Error('boom');
+
+    await expect(
+      withTransaction(async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+  });
+
+  it('should revert applied changes in reverse order', async () => {
+    const order: string[] = [];
+
+    const error = await withTransaction(async transaction => {
+      transaction.record('A', async () => {
+        order.push('A');
+      });
+      transaction.record('B', async () => {
+        order.push('B');
+      });
+      throw new Error('boom');
+    }).catch(e => e);
+
+    expect(order).toEqual(['B', 'A']);
+    expect(error).toBeInstanceOf(ApplyError);
+    expect(error.message).toBe('boom\n  Reverted: B, A');
+    expect(error.reverted).toEqual(['B', 'A']);
+    expect(error.unreverted).toEqual([]);
+  });
+
+  it('should report changes that could not be reverted', async () => {
+    const revert = mock(() => Promise.resolve());
+
+    const error = await withTransaction(async transaction => {
+      transaction.record('A', revert);
+      transaction.record('B');
+      transaction.record('C', async () => {
+        throw new Error('denied');
+      });
+      throw new Error('boom');
+    }).catch(e => e);
+
+    expect(revert).toHaveBeenCalledTimes(1);
+    expect(error.reverted).toEqual(['A']);
+    expect(error.unreverted).toEqual([
+      'C (denied)',
+      'B (previous value unknown)',
+    ]);
+    expect(error.message).toContain(
+      'Not reverted: C (denied), B (previous value unknown)'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { ApplyError } from '../types/index.js';
+import { emitFailedOperation, logOperation } from './output.js';
+
+/** Change applied to a provider and how to undo it */
+interface AppliedChange {
+  key: string;
+  /** Undoes the change; absent when the previous state is unknown */
+  revert?: () => Promise<void>;
+}
+
+/** Records the changes an apply has made so far */
+export interface Transaction {
+  /**
+   * Record a change that was applied successfully
+   * @param revert Restores the previous state; omit when it is unknown
+   */
+  record(key: string, revert?: () => Promise<void>): void;
+}
+
+/**
+ * Run an apply so that a failure reverts the changes made before it
+ * Recorded changes are reverted in reverse order; a change that cannot be
+ * reverted does not stop the remaining ones.
+ * @returns The result of fn
+ * @throws The original error when nothing was applied yet
+ * @throws {ApplyError} Listing the reverted and unreverted keys otherwise
+ */
+export async function withTransaction<T>(
+  fn: (transaction: Transaction) => Promise<T>
+): Promise<T> {
+  const applied: AppliedChange[] = [];
+
+  try {
+    return await fn({
+      record: (key, revert) => {
+        applied.push({ key, revert });
+      },
+    });
+  } catch (error) {
+    if (applied.length === 0) {
+      throw error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Error: ${message}`);
+    console.log(`Reverting ${applied.length} applied changes...`);
+
+    const reverted: string[] = [];
+    const unreverted: string[] = [];
+    for (const { key, revert } of [...applied].reverse()) {
+      if (!revert) {
+        unreverted.push(`${key} (previous value unknown)`);
+        console.warn(`Warning: Cannot revert ${key}: previous value unknown`);
+        emitFailedOperation('revert', key, 'previous value unknown');
+        continue;
+      }
+
+      try {
+        await revert();
+        reverted.push(key);
+        logOperation('revert', key);
+      } catch (revertError) {
+        const reason =
+          revertError instanceof Error
+            ? revertError.message
+            : String(revertError);
+        unreverted.push(`${key} (${reason})`);
+        console.warn(`Warning: Failed to revert ${key}: ${reason}`);
+        emitFailedOperation('revert', key, reason);
+      }
+    }
+
+    const details = [
+      reverted.length > 0 ? `Reverted: ${reverted.join(', ')}` : undefined,
+      unreverted.length > 0
+        ? `Not reverted: ${unreverted.join(', ')}`
+        : undefined,
+    ].filter(Boolean);
+    throw new ApplyError(
+      `${message}\n  ${details.join('\n  ')}`,
+      reverted,
+      unreverted,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'bun:test';
+import type { KeyTransform } from '../types/index.js';
+import { formatTransform, transformEnvVars } from './transform.js';
+
+/** Build a transform with defaults for the fields a test does not set */
+function createTransform(overrides: Partial<KeyTransform>): KeyTransform {
+  return { include: [], exclude: [], rename: {}, ...overrides };
+}
+
+describe('Key Transform', () => {
+  const envVars = {
+    NEXT_PUBLIC_URL: 'https://example.com',
+    NEXT_PUBLIC_KEY: 'pk',
+    API_SECRET: 'secret',
+    DEBUG: 'true',
+  };
+
+  it('should keep everything with an empty transform', () => {
+    const result = transformEnvVars(envVars, createTransform({}));
+
+    expect(result).toEqual({ envVars, renamed: [], excluded: [] });
+  });
+
+  it('should filter with include and exclude patterns', () => {
+    const result = transformEnvVars(
+      envVars,
+      createTransform({ include: ['NEXT_PUBLIC_*'], exclude: ['*_KEY'] })
+    );
+
+    expect(result.envVars).toEqual({ NEXT_PUBLIC_URL: 'https://example.com' });
+    expect(result.excluded).toEqual(['NEXT_PUBLIC_KEY', 'API_SECRET', 'DEBUG']);
+  });
+
+  it('should strip and add prefixes, preferring explicit renames', () => {
+    const result = transformEnvVars(
+      envVars,
+      createTransform({
+        stripPrefix: 'NEXT_PUBLIC_',
+        addPrefix: 'VITE_',
+        rename: { API_SECRET: 'SECRET' },
+      })
+    );
+
+    expect(result.envVars).toEqual({
+      VITE_URL: 'https://example.com',
+      VITE_KEY: 'pk',
+      SECRET: 'secret',
+      VITE_DEBUG: 'true',
+    });
+    expect(result.renamed).toContainEqual(['API_SECRET', 'SECRET']);
+  });
+
+  it('should only apply renames defined for the key itself', () => {
+    const result = transformEnvVars(
+      { constructor: 'a', toString: 'b' },
+      createTransform({ rename: { toString: 'TO_STRING' } })
+    );
+
+    expect(result.envVars).toEqual({ constructor: 'a', TO_STRING: 'b' });
+    expect(result.renamed).toEqual([['toString', 'TO_STRING']]);
+  });
+
+  it('should reject a rename to an empty key', () => {
+    expect(() =>
+      transformEnvVars(
+        { API_KEY: 'a' },
+        createTransform({ rename: { API_KEY: '' } })
+      )
+    ).toThrow('Renaming key API_KEY leaves it empty');
+  });
+
+  it('should reject keys that collide after renaming', () => {
+    expect(() =>
+      transformEnvVars(
+        { NEXT_PUBLIC_URL: 'a', URL: 'b' },
+        createTransform({ stripPrefix: 'NEXT_PUBLIC_' })
+      )
+    ).toThrow('Keys NEXT_PUBLIC_URL and URL both map to URL');
+  });
+
+  it('should reject a prefix that leaves a key empty', () => {
+    expect(() =>
+      transformEnvVars(
+        { PREFIX_: 'a' },
+        createTransform({ stripPrefix: 'PREFIX_' })
+      )
+    ).toThrow('Stripping prefix "PREFIX_" leaves key PREFIX_ empty');
+  });
+
+  it('should format renamed and excluded keys', () => {
+    expect(
+      formatTransform({
+        envVars: {},
+        renamed: [
+          ['NEXT_PUBLIC_URL', 'URL'],
+          ['DEBUG', 'APP_DEBUG'],
+        ],
+        excluded: ['API_SECRET'],
+      })
+    ).toEqual([
+      'Renamed keys:',
+      '  NEXT_PUBLIC_URL -> URL',
+      '  DEBUG           -> APP_DEBUG',
+      'Excluded 1 keys: API_SECRET',
+    ]);
+  });
+});
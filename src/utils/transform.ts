@@ -0,0 +1,103 @@
+import {
+  ConfigError,
+  type EnvVars,
+  type KeyTransform,
+} from '../types/index.js';
+import { matchesAny } from './patterns.js';
+
+/** Variables after a key transform, with what was changed */
+export interface TransformResult {
+  envVars: EnvVars;
+  /** Original and new name of every renamed key */
+  renamed: [from: string, to: string][];
+  /** Keys dropped by include/exclude */
+  excluded: string[];
+}
+
+/**
+ * Compute the new name of a key
+ * An explicit rename wins; otherwise the prefix is stripped (when present)
+ * and the new prefix added.
+ * @throws {ConfigError} When a rename or stripped prefix leaves an empty key
+ */
+function renameKey(key: string, transform: KeyTransform): string {
+  if (Object.hasOwn(transform.rename, key)) {
+    const renamed = transform.rename[key];
+    if (!renamed) {
+      throw new ConfigError(`Renaming key ${key} leaves it empty`);
+    }
+    return renamed;
+  }
+
+  let name = key;
+  if (transform.stripPrefix && name.startsWith(transform.stripPrefix)) {
+    name = name.slice(transform.stripPrefix.length);
+    if (!name) {
+      throw new ConfigError(
+        `Stripping prefix "${transform.stripPrefix}" leaves key ${key} empty`
+      );
+    }
+  }
+
+  return `${transform.addPrefix ?? ''}${name}`;
+}
+
+/**
+ * Filter and rename variables before they are pushed
+ * Include and exclude patterns match the original keys.
+ * @throws {ConfigError} When two keys end up with the same name
+ */
+export function transformEnvVars(
+  envVars: EnvVars,
+  transform: KeyTransform
+): TransformResult {
+  const result: TransformResult = { envVars: {}, renamed: [], excluded: [] };
+  const sources = new Map<string, string>();
+
+  for (const [key, value] of Object.entries(envVars)) {
+    const included =
+      transform.include.length === 0 || matchesAny(key, transform.include);
+    if (!included || matchesAny(key, transform.exclude)) {
+      result.excluded.push(key);
+      continue;
+    }
+
+    const name = renameKey(key, transform);
+    const source = sources.get(name);
+    if (source) {
+      throw new ConfigError(`Keys ${source} and ${key} both map to ${name}`);
+    }
+
+    sources.set(name, key);
+    result.envVars[name] = value;
+    if (name !== key) {
+      result.renamed.push([key, name]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Format the effect of a transform for the confirmation output
+ * @returns Output lines, empty when no key was renamed or excluded
+ */
+export function formatTransform(result: TransformResult): string[] {
+  const lines: string[] = [];
+
+  if (result.renamed.length > 0) {
+    const width = Math.max(...result.renamed.map(([from]) => from.length));
+    lines.push('Renamed keys:');
+    for (const [from, to] of result.renamed) {
+      lines.push(`  ${from.padEnd(width)} -> ${to}`);
+    }
+  }
+
+  if (result.excluded.length > 0) {
+    lines.push(
+      `Excluded ${result.excluded.length} keys: ${result.excluded.join(', ')}`
+    );
+  }
+
+  return lines;
+}
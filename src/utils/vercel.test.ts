@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, mock, vi } from 'bun:test';
 import { readFileSync } from 'node:fs';
 import { prompt } from './input.js';
-import { getProjectIdFromFile, getVercelToken } from './vercel.js';
+import { getProjectConfigFromFile, getVercelToken } from './vercel.js';
 
 await mock.module('node:fs', () => ({
   readFileSync: mock(),
@@ -20,15 +20,15 @@ describe('Vercel Utils', () => {
     delete process.env.VERCEL_TOKEN;
   });
 
-  describe('getProjectIdFromFile', () => {
-    it('should return project ID from valid .vercel/project.json', () => {
+  describe('getProjectConfigFromFile', () => {
+    it('should return project and team IDs from valid .vercel/project.json', () => {
       mockReadFileSync.mockReturnValue(
-        '{"projectId":"test-123","orgId":"org-456"}'
+        '{"projectId":"test-123","orgId":"team_456"}'
       );
 
-      const result = getProjectIdFromFile();
+      const result = getProjectConfigFromFile();
 
-      expect(result).toBe('test-123');
+      expect(result).toEqual({ projectId: 'test-123', orgId: 'team_456' });
       expect(mockReadFileSync).toHaveBeenCalledWith(
         '.vercel/project.json',
         'utf-8'
@@ -38,7 +38,7 @@ describe('Vercel Utils', () => {
     it('should throw error if projectId is missing', () => {
       mockReadFileSync.mockReturnValue('{"orgId":"org-456"}');
 
-      expect(() => getProjectIdFromFile()).toThrow(
+      expect(() => getProjectConfigFromFile()).toThrow(
         'Invalid .vercel/project.json: missing or invalid projectId'
       );
     });
@@ -48,7 +48,7 @@ describe('Vercel Utils', () => {
         throw new Error('File not found');
       });
 
-      expect(() => getProjectIdFromFile()).toThrow(
+      expect(() => getProjectConfigFromFile()).toThrow(
         'Failed to read project ID from .vercel/project.json'
       );
     });
@@ -56,7 +56,7 @@ describe('Vercel Utils', () => {
     it('should throw error if file contains invalid JSON', () => {
       mockReadFileSync.mockReturnValue('invalid json');
 
-      expect(() => getProjectIdFromFile()).toThrow(
+      expect(() => getProjectConfigFromFile()).toThrow(
         'Failed to read project ID from .vercel/project.json'
       );
     });
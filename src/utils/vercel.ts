@@ -1,5 +1,9 @@
 import { readFileSync } from 'node:fs';
-import { ConfigError, isVercelProjectConfig } from '../types/index.js';
+import {
+  ConfigError,
+  isVercelProjectConfig,
+  type VercelProjectConfig,
+} from '../types/index.js';
 import { prompt } from './input.js';
 
 /**
@@ -20,11 +24,10 @@ export async function getVercelToken(tokenArg?: string): Promise<string> {
 }
 
 /**
- * Get Vercel project ID from .vercel/project.json file
- * @returns Project ID string
+ * Read the project and team ids from .vercel/project.json
  * @throws {ConfigError} When file cannot be read or is invalid
  */
-export function getProjectIdFromFile(): string {
+export function getProjectConfigFromFile(): VercelProjectConfig {
   try {
     const fileContent = readFileSync('.vercel/project.json', 'utf-8');
     const projectConfig: unknown = JSON.parse(fileContent);
@@ -35,7 +38,8 @@ export function getProjectIdFromFile(): string {
       );
     }
 
-    return projectConfig.projectId;
+    const { projectId, orgId } = projectConfig;
+    return typeof orgId === 'string' ? { projectId, orgId } : { projectId };
   } catch (error) {
     if (error instanceof ConfigError) {
       throw error;